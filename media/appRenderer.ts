@@ -7,20 +7,32 @@ import type {
   Message,
   Conversation,
   IDEContext,
+  SearchResult,
+  ConversationState,
+  ModelInfo,
+  ProviderInfo,
+  AccountInfo,
 } from '../src/protocol';
-import { MODELS } from '../src/protocol';
 import { escapeHtml, renderMarkdown } from './markdownRenderer';
-import { getToolHeadline, renderToolDetailPreview } from './toolRenderers';
+import { getToolHeadline, renderToolDetailPreview, renderEditReview, renderApprovalPreview } from './toolRenderers';
+import type { BlockRef } from './toolRenderers';
 import { getFileName, getFileIcon } from './fileUtils';
 import { escapeAttr } from './webviewUtils';
 
 export interface PendingConfirmation {
+  conversationId: string;
   requestId: number;
   toolName: string;
   description: string;
+  confirmationType: string;
+  /** Tool arguments (command, paths, old/new text) shown in the preview. */
+  input: Record<string, unknown>;
+  /** False when no rule narrower than the whole program could be saved (e.g. `bash -c ...`). */
+  canAlwaysAllow: boolean;
 }
 
 export interface PendingQuestion {
+  conversationId: string;
   requestId: number;
   questions: Array<{
     question: string;
@@ -31,6 +43,7 @@ export interface PendingQuestion {
 }
 
 export interface PendingPlanApproval {
+  conversationId: string;
   requestId: number;
   plan: string;
 }
@@ -78,7 +91,7 @@ function getPieSlicePath(cx: number, cy: number, r: number, percent: number, use
 
 // ── Top bar ─────────────────────────────────────────────────────────
 
-export function renderTopBar(title: string, conversationPanelHtml: string): string {
+export function renderTopBar(title: string, conversationPanelHtml: string, accountHtml: string): string {
   return `
     <div class="top-bar">
       <div class="conversation-selector">
@@ -89,6 +102,7 @@ export function renderTopBar(title: string, conversationPanelHtml: string): stri
         ${conversationPanelHtml}
       </div>
       <div class="toolbar">
+         ${accountHtml}
          <button id="new-conversation-top-btn" class="icon-btn" title="New Chat">
            <span class="icon">+</span>
          </button>
@@ -97,13 +111,74 @@ export function renderTopBar(title: string, conversationPanelHtml: string): stri
   `;
 }
 
+const AUTH_TYPE_LABELS: Record<string, string> = {
+  'oauth-iflow': 'iFlow login',
+  'iflow': 'iFlow API key',
+  'openai-compatible': 'OpenAI-compatible API',
+};
+
+function formatExpiry(expiresAt: number, now: number): string {
+  const minutes = Math.floor((expiresAt - now) / 60000);
+  if (minutes <= 0) return 'expired';
+  if (minutes < 60) return `expires in ${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `expires in ${hours}h`;
+  return `expires in ${Math.floor(hours / 24)}d`;
+}
+
+/** Account button plus its popup: user, auth type, token expiry and log in/out. */
+export function renderAccountMenu(account: AccountInfo | undefined, showMenu: boolean): string {
+  const now = Date.now();
+  const name = account?.userName || account?.email || '';
+  const avatar = account?.avatar?.startsWith('https://')
+    ? `<img class="account-avatar" src="${escapeAttr(account.avatar)}" alt="">`
+    : `<span class="account-avatar placeholder">${escapeHtml(name ? name.charAt(0).toUpperCase() : '?')}</span>`;
+  const expired = account?.expiresAt !== undefined && account.expiresAt <= now;
+
+  const rows: string[] = [
+    `<div class="account-row"><span>Auth type</span><span>${escapeHtml(account?.authType ? AUTH_TYPE_LABELS[account.authType] ?? account.authType : 'Not configured')}</span></div>`,
+  ];
+  if (account?.expiresAt !== undefined) {
+    rows.push(`<div class="account-row${expired ? ' expired' : ''}" title="${escapeAttr(new Date(account.expiresAt).toLocaleString())}"><span>Token</span><span>${formatExpiry(account.expiresAt, now)}</span></div>`);
+  }
+  if (account?.hasApiKey) {
+    rows.push('<div class="account-row"><span>API key</span><span>Stored in secret storage</span></div>');
+  }
+
+  return `
+    <div class="account-selector">
+      <button id="account-trigger" class="icon-btn account-trigger${expired ? ' expired' : ''}" title="${escapeAttr(name ? `Account: ${name}` : 'Account')}">
+        ${avatar}
+      </button>
+      <div class="account-popup ${showMenu ? '' : 'hidden'}" id="account-popup">
+        <div class="account-user">
+          ${avatar}
+          <div class="account-user-text">
+            <div class="account-name">${escapeHtml(account?.loggedIn ? name || 'iFlow user' : 'Not logged in')}</div>
+            ${account?.loggedIn && account.email && account.email !== name ? `<div class="account-email">${escapeHtml(account.email)}</div>` : ''}
+          </div>
+        </div>
+        ${rows.join('')}
+        <div class="mode-popup-divider"></div>
+        ${account?.loggedIn
+          ? '<button id="account-logout-btn" class="account-action">Log out</button>'
+          : '<button id="account-login-btn" class="account-action">Log in</button>'}
+      </div>
+    </div>
+  `;
+}
+
 export function renderConversationPanel(opts: {
   conversations: Conversation[];
   search: string;
   showPanel: boolean;
   currentConversationId: string | null;
+  streamingConversationIds?: string[];
+  searchResults?: SearchResult[];
 }): string {
   const { conversations, search, showPanel, currentConversationId } = opts;
+  const searchResults = search.trim() ? opts.searchResults ?? [] : [];
+  const streamingIds = new Set(opts.streamingConversationIds ?? []);
   const filtered = conversations.filter(c =>
     search === '' ||
     c.title.toLowerCase().includes(search.toLowerCase())
@@ -135,10 +210,10 @@ export function renderConversationPanel(opts: {
   return `
     <div class="conversation-panel ${showPanel ? '' : 'hidden'}" id="conversation-panel">
       <div class="conversation-panel-search">
-        <input type="text" id="conversation-search" placeholder="Search sessions..." value="${escapeAttr(search)}" />
+        <input type="text" id="conversation-search" placeholder="Search sessions and messages..." value="${escapeAttr(search)}" />
       </div>
       <div class="conversation-panel-list">
-        ${groups.length === 0 ? '<div class="conversation-panel-empty">No conversations found</div>' : ''}
+        ${groups.length === 0 && searchResults.length === 0 ? '<div class="conversation-panel-empty">No conversations found</div>' : ''}
         ${groups.map(g => `
           <div class="conversation-group-label">${g.label}</div>
           ${g.items.map(c => `
@@ -147,18 +222,56 @@ export function renderConversationPanel(opts: {
                 <div class="conversation-item-title">${escapeHtml(c.title)}</div>
                 <div class="conversation-item-meta">
                   <span>${c.messages.length} messages</span>
+                  ${streamingIds.has(c.id) ? '<span class="conversation-item-running">● Running</span>' : ''}
                 </div>
               </div>
               <span class="conversation-item-time">${timeAgo(c.updatedAt, now)}</span>
+              <button class="conversation-item-export" data-export-id="${c.id}" title="Export">⤓</button>
               <button class="conversation-item-delete" data-delete-id="${c.id}" title="Delete">&times;</button>
             </div>
           `).join('')}
         `).join('')}
+        ${searchResults.length > 0 ? `
+          <div class="conversation-group-label">Messages</div>
+          ${searchResults.map(renderSearchResult).join('')}
+        ` : ''}
       </div>
     </div>
   `;
 }
 
+const SEARCH_SOURCE_LABELS: Record<SearchResult['source'], string> = {
+  message: 'message',
+  tool: 'tool call',
+  file: 'file path',
+};
+
+function renderSearchResult(result: SearchResult): string {
+  return `
+    <div class="search-result" data-result-conversation-id="${result.conversationId}" data-result-message-id="${result.messageId}">
+      <div class="search-result-header">
+        <span class="search-result-title">${escapeHtml(result.conversationTitle)}</span>
+        <span class="search-result-source">${result.role === 'user' ? 'You' : 'IFlow'} · ${SEARCH_SOURCE_LABELS[result.source]}</span>
+      </div>
+      <div class="search-result-snippet">${highlightSnippet(result.snippet, result.matches)}</div>
+    </div>
+  `;
+}
+
+function highlightSnippet(snippet: string, matches: Array<[number, number]>): string {
+  let html = '';
+  let cursor = 0;
+  for (const [start, length] of matches) {
+    if (start < cursor) {
+      continue; // overlaps the previous match
+    }
+    html += escapeHtml(snippet.slice(cursor, start));
+    html += `<mark>${escapeHtml(snippet.slice(start, start + length))}</mark>`;
+    cursor = start + length;
+  }
+  return html + escapeHtml(snippet.slice(cursor));
+}
+
 // ── Mode popup ──────────────────────────────────────────────────────
 
 function renderModePopup(mode: ConversationMode, isThinking: boolean, showModeMenu: boolean): string {
@@ -193,7 +306,19 @@ function renderModePopup(mode: ConversationMode, isThinking: boolean, showModeMe
 
 // ── Messages ────────────────────────────────────────────────────────
 
-export function renderMessages(conversation: Conversation | null, isStreaming: boolean, faviconUri: string): string {
+/** A user message being edited in place before it is resent as a new branch. */
+export interface MessageEditState {
+  messageId: string;
+  draft: string;
+}
+
+export function renderMessages(
+  conversation: Conversation | null,
+  isStreaming: boolean,
+  faviconUri: string,
+  editing: MessageEditState | null = null,
+  models: ModelInfo[] = []
+): string {
   if (!conversation || conversation.messages.length === 0) {
     return `
       <div class="messages" id="messages-container">
@@ -209,20 +334,41 @@ export function renderMessages(conversation: Conversation | null, isStreaming: b
 
   return `
     <div class="messages" id="messages-container">
-      ${conversation.messages.map(m => renderMessage(m)).join('')}
+      ${conversation.messages.map((m, i) => renderMessage(m, {
+        isStreaming,
+        isLast: i === conversation.messages.length - 1,
+        editing: editing?.messageId === m.id ? editing : null,
+        models,
+      })).join('')}
       ${isStreaming ? renderPendingIndicator(faviconUri) : ''}
     </div>
   `;
 }
 
-function renderMessage(message: Message): string {
+function renderMessage(
+  message: Message,
+  opts: { isStreaming: boolean; isLast: boolean; editing: MessageEditState | null; models: ModelInfo[] }
+): string {
+  const { isStreaming, editing } = opts;
   const isUser = message.role === 'user';
+  if (message.compaction) {
+    return renderCompactionBoundary(message, isStreaming && opts.isLast);
+  }
 
   return `
-    <div class="message ${isUser ? 'user' : 'assistant'}">
+    <div class="message ${isUser ? 'user' : 'assistant'}" data-message-id="${message.id}">
       <div class="message-header">
         <span class="role">${isUser ? 'You' : 'IFlow'}</span>
+        ${!isUser && message.model ? `<span class="message-model">${escapeHtml(getModelLabel(message.model, opts.models))}</span>` : ''}
         <span class="timestamp">${formatTime(message.timestamp)}</span>
+        ${message.branchSet ? renderBranchNav(message, isStreaming) : ''}
+        ${!isStreaming && !isUser && opts.isLast ? renderRegenerateControls(message, opts.models) : ''}
+        ${!isStreaming && isUser && !editing ? `
+          <button class="message-action-btn" data-edit-message-id="${message.id}" title="Edit this message and resend it as a new branch">✎ Edit</button>
+        ` : ''}
+        ${!isStreaming ? `
+          <button class="message-action-btn" data-rewind-message-id="${message.id}" title="Restore files changed after this point and remove later messages">↶ Rewind to here</button>
+        ` : ''}
       </div>
       ${message.attachedFiles.length > 0 ? `
         <div class="attached-files-display">
@@ -234,14 +380,116 @@ function renderMessage(message: Message): string {
           `).join('')}
         </div>
       ` : ''}
-      <div class="message-content">
-        ${message.blocks.map(b => renderBlock(b)).join('')}
+      ${editing ? `
+        <div class="message-edit">
+          <textarea class="message-edit-input" id="message-edit-input" rows="3">${escapeHtml(editing.draft)}</textarea>
+          <div class="message-edit-actions">
+            <button class="message-edit-btn" data-edit-cancel>Cancel</button>
+            <button class="message-edit-btn primary" data-edit-submit title="Send (Ctrl+Enter)">Send as new branch</button>
+          </div>
+        </div>
+      ` : `
+        <div class="message-content">
+          ${message.blocks.map((b, i) => renderBlock(b, { messageId: message.id, blockIndex: i })).join('')}
+        </div>
+      `}
+    </div>
+  `;
+}
+
+/** Divider marking where earlier turns were replaced by a summary; the summary itself is collapsible. */
+function renderCompactionBoundary(message: Message, inProgress: boolean): string {
+  const usage = message.compaction!;
+  const title = inProgress
+    ? 'Compacting conversation…'
+    : `Context compacted · ${usage.usedTokens.toLocaleString()} / ${usage.totalTokens.toLocaleString()} tokens summarized`;
+  return `
+    <div class="message compaction-boundary" data-message-id="${message.id}">
+      <details class="compaction-details"${inProgress ? ' open' : ''}>
+        <summary class="compaction-title">${escapeHtml(title)}</summary>
+        <div class="message-content">
+          ${message.blocks.map((b, i) => renderBlock(b, { messageId: message.id, blockIndex: i })).join('')}
+        </div>
+      </details>
+    </div>
+  `;
+}
+
+/** Regenerate the last answer with the same model, or pick another one to compare. */
+function renderRegenerateControls(message: Message, models: ModelInfo[]): string {
+  return `
+    <button class="message-action-btn" data-regenerate-message-id="${message.id}" title="Generate another answer to the same prompt; both are kept">⟳ Regenerate</button>
+    <select class="regenerate-model-select" data-regenerate-model-for="${message.id}" title="Regenerate with another model">
+      <option value="" selected>with model…</option>
+      ${models.map(m => `<option value="${escapeAttr(m.id)}">${escapeHtml(m.displayName)}</option>`).join('')}
+    </select>
+  `;
+}
+
+/** Display name of a model id; ids no longer in the catalog are shown as-is. */
+function getModelLabel(id: string, models: ModelInfo[]): string {
+  return models.find(m => m.id === id)?.displayName ?? id;
+}
+
+/** "‹ 2/3 ›" switcher between sibling branches that start at this message. */
+function renderBranchNav(message: Message, isStreaming: boolean): string {
+  const branchSet = message.branchSet;
+  if (!branchSet) {
+    return '';
+  }
+  const { active, branches } = branchSet;
+  const button = (index: number, label: string, title: string) => `
+    <button class="branch-nav-btn" data-branch-message-id="${message.id}" data-branch-index="${index}"
+      title="${title}" ${isStreaming || index < 0 || index >= branches.length ? 'disabled' : ''}>${label}</button>
+  `;
+  return `
+    <span class="branch-nav">
+      ${button(active - 1, '‹', 'Previous version')}
+      <span class="branch-nav-count">${active + 1}/${branches.length}</span>
+      ${button(active + 1, '›', 'Next version')}
+    </span>
+  `;
+}
+
+/**
+ * Static rendering of a whole conversation for HTML export: no action
+ * buttons or review controls, thinking blocks expanded.
+ */
+export function renderConversationExport(conversation: Conversation): string {
+  const messagesHtml = conversation.messages.map(message => {
+    const isUser = message.role === 'user';
+    return `
+      <div class="message ${isUser ? 'user' : 'assistant'}">
+        <div class="message-header">
+          <span class="role">${isUser ? 'You' : 'IFlow'}</span>
+          <span class="timestamp">${escapeHtml(new Date(message.timestamp).toLocaleString())}</span>
+        </div>
+        ${message.attachedFiles.length > 0 ? `
+          <div class="attached-files-display">
+            ${message.attachedFiles.map(f => `
+              <span class="file-chip small" title="${escapeAttr(f.path)}">
+                <span class="file-icon">${getFileIcon(f.path)}</span>
+                <span class="file-name">${escapeHtml(getFileName(f.path))}</span>
+              </span>
+            `).join('')}
+          </div>
+        ` : ''}
+        <div class="message-content">
+          ${message.blocks.map(b => renderBlock(b.type === 'thinking' ? { ...b, collapsed: false } : b)).join('')}
+        </div>
       </div>
+    `;
+  }).join('');
+
+  return `
+    <h1 class="export-title">${escapeHtml(conversation.title)}</h1>
+    <div class="messages">
+      ${messagesHtml}
     </div>
   `;
 }
 
-export function renderBlock(block: OutputBlock): string {
+export function renderBlock(block: OutputBlock, ref?: BlockRef): string {
   switch (block.type) {
     case 'text':
       return `<div class="block-text">${renderMarkdown(block.content)}</div>`;
@@ -267,6 +515,7 @@ export function renderBlock(block: OutputBlock): string {
             <span class="tool-headline">${escapeHtml(getToolHeadline(block))}</span>
           </div>
           ${detailPreview}
+          ${ref ? renderEditReview(block, ref) : ''}
         </div>
       `;
       }
@@ -416,24 +665,27 @@ export function renderIDEContextChips(
 export function renderComposer(opts: {
   conversation: Conversation | null;
   isStreaming: boolean;
-  pendingConfirmation: PendingConfirmation | null;
-  pendingQuestion: PendingQuestion | null;
+  /** Oldest first; the first entry is the one on screen. */
+  confirmationQueue: PendingConfirmation[];
+  questionQueue: PendingQuestion[];
   pendingPlanApproval: PendingPlanApproval | null;
   ideContextChipsHtml: string;
   attachedFilesHtml: string;
   slashMenuHtml: string;
   mentionMenuHtml: string;
-  contextUsage: { percent: number; usedTokens: number; totalTokens: number } | undefined;
+  contextUsage: ConversationState['contextUsage'];
+  models: ModelInfo[];
+  providers: ProviderInfo[];
   showModeMenu: boolean;
   workspaceFolderName?: string;
   isMultiRoot: boolean;
 }): string {
-  if (opts.pendingConfirmation) {
-    return renderApprovalPanel(opts.pendingConfirmation);
+  if (opts.confirmationQueue.length > 0) {
+    return renderApprovalPanel(opts.confirmationQueue);
   }
 
-  if (opts.pendingQuestion) {
-    return renderQuestionPanel(opts.pendingQuestion);
+  if (opts.questionQueue.length > 0) {
+    return renderQuestionPanel(opts.questionQueue[0], opts.questionQueue.length);
   }
 
   if (opts.pendingPlanApproval) {
@@ -441,8 +693,9 @@ export function renderComposer(opts: {
   }
 
   const conversation = opts.conversation;
-  const isThinking = conversation?.think ?? false;
-  const currentModel = conversation?.model ?? 'GLM-4.7';
+  const currentModel = conversation?.model ?? opts.models[0]?.id ?? '';
+  const modelInfo = opts.models.find(m => m.id === currentModel);
+  const isThinking = (conversation?.think ?? false) && modelInfo?.supportsThinking !== false;
 
   return `
     <div class="composer">
@@ -486,11 +739,13 @@ export function renderComposer(opts: {
               ${renderModePopup(conversation?.mode || 'default', isThinking, opts.showModeMenu)}
            </div>
            ${isThinking ? '<span class="thinking-chip">🧠 Thinking</span>' : ''}
+           ${renderProviderSelect(conversation?.providerId, opts.providers)}
            <div class="status-item">
              <select id="model-select" class="dropdown-mini" title="Select Model">
-               ${MODELS.map(m => `
-                 <option value="${m}" ${currentModel === m ? 'selected' : ''}>${m}</option>
+               ${opts.models.map(m => `
+                 <option value="${escapeAttr(m.id)}" ${currentModel === m.id ? 'selected' : ''}>${escapeHtml(m.displayName)}</option>
                `).join('')}
+               ${currentModel && !modelInfo ? `<option value="${escapeAttr(currentModel)}" selected disabled>${escapeHtml(currentModel)} (unavailable)</option>` : ''}
              </select>
            </div>
         </div>
@@ -500,7 +755,24 @@ export function renderComposer(opts: {
   `;
 }
 
-function renderContextUsage(usage: { percent: number; usedTokens: number; totalTokens: number } | undefined): string {
+/** Provider profile picker; hidden until profiles are configured. */
+function renderProviderSelect(currentProvider: string | undefined, providers: ProviderInfo[]): string {
+  if (providers.length === 0 && !currentProvider) return '';
+  const known = !currentProvider || providers.some(p => p.id === currentProvider);
+  return `
+    <div class="status-item">
+      <select id="provider-select" class="dropdown-mini" title="Select Provider">
+        <option value="" ${!currentProvider ? 'selected' : ''}>iFlow</option>
+        ${providers.map(p => `
+          <option value="${escapeAttr(p.id)}" ${currentProvider === p.id ? 'selected' : ''}>${escapeHtml(p.id)}${p.hasApiKey ? '' : ' (no API key)'}</option>
+        `).join('')}
+        ${known ? '' : `<option value="${escapeAttr(currentProvider)}" selected disabled>${escapeHtml(currentProvider)} (unavailable)</option>`}
+      </select>
+    </div>
+  `;
+}
+
+function renderContextUsage(usage: ConversationState['contextUsage']): string {
   if (!usage) return '';
   const percent = usage.percent;
   const colorClass = percent >= 80 ? 'context-high' : percent >= 50 ? 'context-mid' : 'context-low';
@@ -508,7 +780,7 @@ function renderContextUsage(usage: { percent: number; usedTokens: number; totalT
   const piePath = getPieSlicePath(18, 18, 16, percent, usage.usedTokens);
   return `
     <div class="status-right">
-      <div class="context-usage ${colorClass}" title="${usage.usedTokens.toLocaleString()} / ${usage.totalTokens.toLocaleString()} tokens">
+      <div class="context-usage ${colorClass}" title="${usage.usedTokens.toLocaleString()} / ${usage.totalTokens.toLocaleString()} tokens${usage.source === 'estimate' ? ' (estimated)' : ''}">
         <svg class="context-pie" width="16" height="16" viewBox="0 0 36 36">
           <circle cx="18" cy="18" r="16" fill="var(--vscode-widget-border, rgba(128,128,128,0.3))"/>
           ${piePath ? `<path d="${piePath}" fill="currentColor"/>` : ''}
@@ -519,20 +791,34 @@ function renderContextUsage(usage: { percent: number; usedTokens: number; totalT
   `;
 }
 
-function renderApprovalPanel(conf: PendingConfirmation): string {
+/** Whether two approval requests are for the same tool and kind ("allow all" batches them). */
+export function isSameConfirmationKind(a: PendingConfirmation, b: PendingConfirmation): boolean {
+  return a.toolName === b.toolName && a.confirmationType === b.confirmationType;
+}
+
+function renderQueueCount(total: number): string {
+  return total > 1 ? `<span class="approval-queue-count" title="Requests waiting, answered oldest first">1 of ${total}</span>` : '';
+}
+
+function renderApprovalPanel(queue: PendingConfirmation[]): string {
+  const conf = queue[0];
   const toolLabel = escapeHtml(conf.toolName);
+  const sameKind = queue.filter(c => isSameConfirmationKind(c, conf)).length;
   return `
     <div class="composer approval-panel">
-      <div class="approval-question">Allow <strong>${toolLabel}</strong>?</div>
+      <div class="approval-question">Allow <strong>${toolLabel}</strong>? ${renderQueueCount(queue.length)}</div>
+      ${conf.description && conf.description !== conf.toolName ? `<div class="approval-description">${escapeHtml(conf.description)}</div>` : ''}
+      <div class="approval-preview">${renderApprovalPreview(conf.toolName, conf.input)}</div>
       <div class="approval-options">
         <button class="approval-option" data-approval="allow">
           <span class="approval-key">1</span>
           <span class="approval-label">Yes</span>
         </button>
+        ${conf.canAlwaysAllow ? `
         <button class="approval-option" data-approval="alwaysAllow">
           <span class="approval-key">2</span>
-          <span class="approval-label">Yes, allow all edits this session</span>
-        </button>
+          <span class="approval-label">Yes, and don't ask again in this workspace</span>
+        </button>` : ''}
         <button class="approval-option" data-approval="reject">
           <span class="approval-key">3</span>
           <span class="approval-label">No</span>
@@ -543,16 +829,21 @@ function renderApprovalPanel(conf: PendingConfirmation): string {
             type="text"
             id="approval-feedback-input"
             class="approval-feedback-input"
-            placeholder="Tell IFlow what to do instead..."
+            placeholder="No, and tell IFlow why (sent after this turn)..."
           />
         </div>
+        ${sameKind > 1 ? `
+        <button class="approval-option" data-approval="allowAll">
+          <span class="approval-key">5</span>
+          <span class="approval-label">Yes to all ${sameKind} pending ${toolLabel} requests</span>
+        </button>` : ''}
       </div>
-      <div class="approval-hint">Esc to cancel</div>
+      <div class="approval-hint">Esc to reject and stop · Enter in 4 to skip this call; your reason is sent when the turn ends</div>
     </div>
   `;
 }
 
-function renderQuestionPanel(pq: PendingQuestion): string {
+function renderQuestionPanel(pq: PendingQuestion, queued: number): string {
   // Render each question with its options
   const questionsHtml = pq.questions.map((q, qIdx) => {
     let keyIndex = 1;
@@ -594,6 +885,7 @@ function renderQuestionPanel(pq: PendingQuestion): string {
 
   return `
     <div class="composer question-panel" data-request-id="${pq.requestId}">
+      ${queued > 1 ? `<div class="approval-queue">${renderQueueCount(queued)}</div>` : ''}
       ${questionsHtml}
       <div class="approval-hint">Esc to cancel</div>
     </div>
@@ -1,9 +1,9 @@
 // DOM event binding functions for the IFlow webview.
 // Extracted from IFlowApp to separate rendering from event attachment.
 
-import type { ConversationMode, ModelType, Conversation, WebviewMessage } from '../src/protocol';
-import { renderConversationPanel } from './appRenderer';
-import type { PendingConfirmation, PendingQuestion, PendingPlanApproval } from './appRenderer';
+import type { ConversationMode, ModelType, Conversation, WebviewMessage, SearchResult } from '../src/protocol';
+import { renderConversationPanel, isSameConfirmationKind } from './appRenderer';
+import type { PendingConfirmation, PendingQuestion, PendingPlanApproval, MessageEditState } from './appRenderer';
 
 /** Interface that IFlowApp implements to supply state and actions to event binders. */
 export interface AppHost {
@@ -14,19 +14,26 @@ export interface AppHost {
   // Mutable UI state
   showConversationPanel: boolean;
   conversationSearch: string;
+  conversationSearchResults: SearchResult[];
+  editingMessage: MessageEditState | null;
   showModeMenu: boolean;
+  showAccountMenu: boolean;
 
   // State access
   getConversations(): Conversation[];
   getCurrentConversationId(): string | null;
   getCurrentConversation(): Conversation | null;
+  getStreamingConversationIds(): string[];
   getPendingConfirmation(): PendingConfirmation | null;
-  clearPendingConfirmation(): void;
+  getConfirmationQueue(): PendingConfirmation[];
+  clearPendingConfirmation(requestIds?: number[]): void;
+  clearPendingConfirmations(): void;
   getPendingQuestion(): PendingQuestion | null;
   clearPendingQuestion(): void;
   getPendingPlanApproval(): PendingPlanApproval | null;
   clearPendingPlanApproval(): void;
   dismissIDEContext(type: 'activeFile' | 'selection'): void;
+  jumpToMessage(conversationId: string, messageId: string): void;
 
   // DOM helpers
   autoSizeSelect(select: HTMLSelectElement): void;
@@ -58,27 +65,8 @@ export function attachTopBarListeners(host: AppHost): void {
   const searchInput = document.getElementById('conversation-search') as HTMLInputElement;
   searchInput?.addEventListener('input', () => {
     host.conversationSearch = searchInput.value;
-    const panel = document.getElementById('conversation-panel');
-    if (panel) {
-      const conversations = host.getConversations();
-      panel.outerHTML = renderConversationPanel({
-        conversations,
-        search: host.conversationSearch,
-        showPanel: true,
-        currentConversationId: host.getCurrentConversationId()
-      });
-      const newPanel = document.getElementById('conversation-panel');
-      if (newPanel) {
-        newPanel.classList.remove('hidden');
-        host.showConversationPanel = true;
-        attachConversationPanelListeners(host);
-        const newSearch = document.getElementById('conversation-search') as HTMLInputElement;
-        if (newSearch) {
-          newSearch.focus();
-          newSearch.selectionStart = newSearch.selectionEnd = newSearch.value.length;
-        }
-      }
-    }
+    refreshConversationPanel(host);
+    scheduleHistorySearch(host);
   });
 
   attachConversationPanelListeners(host);
@@ -86,6 +74,73 @@ export function attachTopBarListeners(host: AppHost): void {
   document.getElementById('new-conversation-top-btn')?.addEventListener('click', () => {
     host.postMessage({ type: 'newConversation' });
   });
+
+  document.getElementById('account-trigger')?.addEventListener('click', (e) => {
+    e.stopPropagation();
+    host.showAccountMenu = !host.showAccountMenu;
+    document.getElementById('account-popup')?.classList.toggle('hidden', !host.showAccountMenu);
+  });
+  document.getElementById('account-login-btn')?.addEventListener('click', () => {
+    host.showAccountMenu = false;
+    host.postMessage({ type: 'startAuth' });
+    host.render();
+  });
+  document.getElementById('account-logout-btn')?.addEventListener('click', () => {
+    host.showAccountMenu = false;
+    host.postMessage({ type: 'logout' });
+    host.render();
+  });
+}
+
+/** Re-render the open conversation panel in place, keeping focus in the search box. */
+export function refreshConversationPanel(host: AppHost): void {
+  const panel = document.getElementById('conversation-panel');
+  if (!panel) {
+    return;
+  }
+  panel.outerHTML = renderConversationPanel({
+    conversations: host.getConversations(),
+    search: host.conversationSearch,
+    showPanel: true,
+    currentConversationId: host.getCurrentConversationId(),
+    streamingConversationIds: host.getStreamingConversationIds(),
+    searchResults: host.conversationSearchResults
+  });
+  const newPanel = document.getElementById('conversation-panel');
+  if (newPanel) {
+    newPanel.classList.remove('hidden');
+    host.showConversationPanel = true;
+    attachConversationPanelListeners(host);
+    const newSearch = document.getElementById('conversation-search') as HTMLInputElement;
+    if (newSearch) {
+      newSearch.focus();
+      newSearch.selectionStart = newSearch.selectionEnd = newSearch.value.length;
+    }
+  }
+}
+
+const HISTORY_SEARCH_DEBOUNCE_MS = 200;
+const HISTORY_SEARCH_MIN_LENGTH = 2;
+let historySearchTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Ask the extension for message matches once typing pauses; results arrive as searchResults. */
+function scheduleHistorySearch(host: AppHost): void {
+  if (historySearchTimer) {
+    clearTimeout(historySearchTimer);
+    historySearchTimer = null;
+  }
+  const query = host.conversationSearch.trim();
+  if (query.length < HISTORY_SEARCH_MIN_LENGTH) {
+    if (host.conversationSearchResults.length > 0) {
+      host.conversationSearchResults = [];
+      refreshConversationPanel(host);
+    }
+    return;
+  }
+  historySearchTimer = setTimeout(() => {
+    historySearchTimer = null;
+    host.postMessage({ type: 'searchConversations', query: host.conversationSearch });
+  }, HISTORY_SEARCH_DEBOUNCE_MS);
 }
 
 // ── Mode / model selectors ──────────────────────────────────────────
@@ -122,6 +177,14 @@ export function attachModeListeners(host: AppHost): void {
       host.autoSizeSelect(modelSelect);
     });
   }
+
+  const providerSelect = document.getElementById('provider-select') as HTMLSelectElement | null;
+  if (providerSelect) {
+    host.autoSizeSelect(providerSelect);
+    providerSelect.addEventListener('change', () => {
+      host.postMessage({ type: 'setProvider', providerId: providerSelect.value || null });
+    });
+  }
 }
 
 // ── Composer ─────────────────────────────────────────────────────────
@@ -182,31 +245,51 @@ function attachApprovalListeners(host: AppHost): void {
   const conf = host.getPendingConfirmation();
   if (!conf) return;
 
-  const handleApproval = (outcome: 'allow' | 'alwaysAllow' | 'reject') => {
-    host.postMessage({ type: 'toolApproval', requestId: conf.requestId, outcome });
-    if (outcome === 'alwaysAllow') {
-      host.postMessage({ type: 'setMode', mode: 'smart' });
+  const handleApproval = (outcome: 'allow' | 'alwaysAllow' | 'reject' | 'allowAll') => {
+    if (outcome === 'allowAll') {
+      // The extension answers every queued request of this kind
+      host.postMessage({ type: 'toolApprovalAll', conversationId: conf.conversationId, requestId: conf.requestId });
+      host.clearPendingConfirmation(host.getConfirmationQueue().filter(c => isSameConfirmationKind(c, conf)).map(c => c.requestId));
+    } else {
+      // "alwaysAllow" is saved as a permission rule by the extension
+      host.postMessage({ type: 'toolApproval', conversationId: conf.conversationId, requestId: conf.requestId, outcome });
+      // A plain reject stops the run, so nothing else in the queue will be answered
+      if (outcome === 'reject') {
+        host.clearPendingConfirmations();
+      } else {
+        host.clearPendingConfirmation();
+      }
     }
-    host.clearPendingConfirmation();
     host.render();
   };
 
-  // Click handlers for the 3 button options
+  // Click handlers for the button options
   document.querySelectorAll('.approval-option[data-approval]').forEach(btn => {
     btn.addEventListener('click', () => {
-      const outcome = (btn as HTMLElement).dataset.approval as 'allow' | 'alwaysAllow' | 'reject';
+      const outcome = (btn as HTMLElement).dataset.approval as 'allow' | 'alwaysAllow' | 'reject' | 'allowAll';
       handleApproval(outcome);
     });
   });
 
-  // Feedback input: Enter to reject + send feedback text
+  // Feedback input: Enter rejects this call and tells iFlow why; the run goes on.
+  // Without text it is a plain reject, which stops the run.
   const feedbackInput = document.getElementById('approval-feedback-input') as HTMLInputElement;
   feedbackInput?.addEventListener('keydown', (e) => {
     if (e.key === 'Enter') {
       e.preventDefault();
-      // Reject the tool call
-      host.postMessage({ type: 'toolApproval', requestId: conf.requestId, outcome: 'reject' });
-      host.clearPendingConfirmation();
+      const feedback = feedbackInput.value.trim();
+      host.postMessage({
+        type: 'toolApproval',
+        conversationId: conf.conversationId,
+        requestId: conf.requestId,
+        outcome: 'reject',
+        feedback: feedback || undefined,
+      });
+      if (feedback) {
+        host.clearPendingConfirmation();
+      } else {
+        host.clearPendingConfirmations();
+      }
       host.render();
     } else if (e.key === 'Escape') {
       e.preventDefault();
@@ -220,8 +303,9 @@ function attachApprovalListeners(host: AppHost): void {
     if (document.activeElement === feedbackInput) return;
 
     if (e.key === '1') { e.preventDefault(); handleApproval('allow'); }
-    else if (e.key === '2') { e.preventDefault(); handleApproval('alwaysAllow'); }
+    else if (e.key === '2' && document.querySelector('[data-approval="alwaysAllow"]')) { e.preventDefault(); handleApproval('alwaysAllow'); }
     else if (e.key === '3') { e.preventDefault(); handleApproval('reject'); }
+    else if (e.key === '5' && document.querySelector('[data-approval="allowAll"]')) { e.preventDefault(); handleApproval('allowAll'); }
     else if (e.key === 'Escape') { e.preventDefault(); handleApproval('reject'); }
     else if (e.key === '4') {
       e.preventDefault();
@@ -247,7 +331,7 @@ function attachQuestionListeners(host: AppHost): void {
   if (!pq) return;
 
   const handleSubmitAnswers = (answers: Record<string, string | string[]>) => {
-    host.postMessage({ type: 'questionAnswer', requestId: pq.requestId, answers });
+    host.postMessage({ type: 'questionAnswer', conversationId: pq.conversationId, requestId: pq.requestId, answers });
     host.clearPendingQuestion();
     host.render();
   };
@@ -350,7 +434,7 @@ function attachPlanApprovalListeners(host: AppHost): void {
   if (!pp) return;
 
   const handleOption = (option: 'smart' | 'default' | 'keep' | 'feedback', feedback?: string) => {
-    host.postMessage({ type: 'planApproval', requestId: pp.requestId, option, feedback });
+    host.postMessage({ type: 'planApproval', conversationId: pp.conversationId, requestId: pp.requestId, option, feedback });
     host.clearPendingPlanApproval();
     host.render();
   };
@@ -436,6 +520,118 @@ export function attachFileOpenListeners(postMessage: (msg: WebviewMessage) => vo
   });
 }
 
+// ── Rewind listeners ────────────────────────────────────────────────
+
+export function attachRewindListeners(postMessage: (msg: WebviewMessage) => void): void {
+  document.querySelectorAll('[data-rewind-message-id]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const messageId = (btn as HTMLElement).dataset.rewindMessageId;
+      if (!messageId) return;
+      postMessage({ type: 'rewindToMessage', messageId });
+    });
+  });
+}
+
+// ── Message edit / branch listeners ─────────────────────────────────
+
+export function attachBranchListeners(host: AppHost): void {
+  document.querySelectorAll('[data-edit-message-id]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const messageId = (btn as HTMLElement).dataset.editMessageId;
+      const message = host.getCurrentConversation()?.messages.find(m => m.id === messageId);
+      if (!message) return;
+      host.editingMessage = { messageId: message.id, draft: message.content };
+      host.render();
+      const input = document.getElementById('message-edit-input') as HTMLTextAreaElement | null;
+      if (input) {
+        input.focus();
+        input.selectionStart = input.selectionEnd = input.value.length;
+      }
+    });
+  });
+
+  const submit = () => {
+    const editing = host.editingMessage;
+    if (!editing || !editing.draft.trim()) return;
+    host.editingMessage = null;
+    host.postMessage({ type: 'editMessage', messageId: editing.messageId, content: editing.draft });
+  };
+  const cancel = () => {
+    host.editingMessage = null;
+    host.render();
+  };
+
+  const input = document.getElementById('message-edit-input') as HTMLTextAreaElement | null;
+  input?.addEventListener('input', () => {
+    if (host.editingMessage) {
+      host.editingMessage.draft = input.value;
+    }
+  });
+  input?.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    }
+  });
+  document.querySelector('[data-edit-submit]')?.addEventListener('click', submit);
+  document.querySelector('[data-edit-cancel]')?.addEventListener('click', cancel);
+
+  document.querySelectorAll('[data-regenerate-message-id]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const messageId = (btn as HTMLElement).dataset.regenerateMessageId;
+      if (!messageId) return;
+      host.postMessage({ type: 'regenerateResponse', messageId });
+    });
+  });
+
+  document.querySelectorAll('[data-regenerate-model-for]').forEach(el => {
+    const select = el as HTMLSelectElement;
+    select.addEventListener('change', () => {
+      const messageId = select.dataset.regenerateModelFor;
+      if (!messageId || !select.value) return;
+      host.postMessage({ type: 'regenerateResponse', messageId, model: select.value as ModelType });
+    });
+  });
+
+  document.querySelectorAll('[data-branch-message-id]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const { branchMessageId, branchIndex } = (btn as HTMLElement).dataset;
+      if (!branchMessageId || branchIndex === undefined) return;
+      host.postMessage({ type: 'switchBranch', messageId: branchMessageId, branchIndex: parseInt(branchIndex, 10) });
+    });
+  });
+}
+
+// ── Edit review listeners ───────────────────────────────────────────
+
+export function attachEditReviewListeners(postMessage: (msg: WebviewMessage) => void): void {
+  document.querySelectorAll('.edit-review').forEach(el => {
+    const reviewEl = el as HTMLElement;
+    if (reviewEl.dataset.reviewBound === '1') {
+      return;
+    }
+    reviewEl.dataset.reviewBound = '1';
+    const messageId = reviewEl.dataset.reviewMessageId;
+    const blockIndex = parseInt(reviewEl.dataset.reviewBlockIndex || '-1', 10);
+    if (!messageId || blockIndex < 0) return;
+
+    reviewEl.querySelector('[data-review-open-diff]')?.addEventListener('click', () => {
+      postMessage({ type: 'openToolDiff', messageId, blockIndex });
+    });
+
+    reviewEl.querySelectorAll('[data-review-hunk]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const hunkIndex = parseInt((btn as HTMLElement).dataset.reviewHunk || '0', 10);
+        const decision = (btn as HTMLElement).dataset.reviewDecision as 'accepted' | 'reverted';
+        postMessage({ type: 'reviewHunk', messageId, blockIndex, hunkIndex, decision });
+      });
+    });
+  });
+}
+
 // ── IDE Context listeners ────────────────────────────────────────────
 
 export function attachIDEContextListeners(host: AppHost): void {
@@ -456,17 +652,39 @@ function attachConversationPanelListeners(host: AppHost): void {
   // Click on conversation items
   document.querySelectorAll('.conversation-item').forEach(item => {
     item.addEventListener('click', (e) => {
-      // Don't switch if clicking the delete button
-      if ((e.target as HTMLElement).closest('.conversation-item-delete')) return;
+      // Don't switch if clicking the export or delete button
+      if ((e.target as HTMLElement).closest('.conversation-item-delete, .conversation-item-export')) return;
       const id = (item as HTMLElement).dataset.id;
       if (id) {
         host.showConversationPanel = false;
         host.conversationSearch = '';
+        host.conversationSearchResults = [];
         host.postMessage({ type: 'switchConversation', conversationId: id });
       }
     });
   });
 
+  // Message search results
+  document.querySelectorAll('.search-result').forEach(item => {
+    item.addEventListener('click', () => {
+      const { resultConversationId, resultMessageId } = (item as HTMLElement).dataset;
+      if (resultConversationId && resultMessageId) {
+        host.jumpToMessage(resultConversationId, resultMessageId);
+      }
+    });
+  });
+
+  // Export conversation buttons
+  document.querySelectorAll('.conversation-item-export').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const id = (btn as HTMLElement).dataset.exportId;
+      if (id) {
+        host.postMessage({ type: 'exportConversation', conversationId: id });
+      }
+    });
+  });
+
   // Delete conversation buttons
   document.querySelectorAll('.conversation-item-delete').forEach(btn => {
     btn.addEventListener('click', (e) => {
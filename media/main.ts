@@ -6,7 +6,9 @@ import type {
   ConversationState,
   WebviewMessage,
   ExtensionMessage,
-  IDEContext
+  IDEContext,
+  SearchResult,
+  ModelInfo
 } from '../src/protocol';
 import { escapeHtml } from './markdownRenderer';
 import { SlashMenuController } from './slashMenuController';
@@ -14,6 +16,7 @@ import { InputController } from './inputController';
 import { TEXTAREA_MIN_HEIGHT, TEXTAREA_MAX_HEIGHT, COMPOSER_MIN_INSET, COMPOSER_INSET_PADDING } from './webviewUtils';
 import {
   renderTopBar,
+  renderAccountMenu,
   renderConversationPanel,
   renderMessages,
   renderComposer,
@@ -21,8 +24,9 @@ import {
   renderPendingIndicator,
   renderIDEContextChips,
   getModeLabel,
+  renderConversationExport,
 } from './appRenderer';
-import type { PendingConfirmation, PendingQuestion, PendingPlanApproval } from './appRenderer';
+import type { PendingConfirmation, PendingQuestion, PendingPlanApproval, MessageEditState } from './appRenderer';
 import {
   attachTopBarListeners,
   attachModeListeners,
@@ -30,6 +34,10 @@ import {
   attachContentListeners,
   attachFileOpenListeners,
   attachIDEContextListeners,
+  attachEditReviewListeners,
+  attachRewindListeners,
+  refreshConversationPanel,
+  attachBranchListeners,
 } from './eventBinder';
 import type { AppHost } from './eventBinder';
 
@@ -41,6 +49,24 @@ interface VsCodeApi {
 
 declare function acquireVsCodeApi(): VsCodeApi;
 
+/** Remove a request from a conversation's queue; whether it was queued. */
+function dequeue<T extends { requestId: number }>(queues: Map<string, T[]>, conversationId: string, requestId: number): boolean {
+  const queue = queues.get(conversationId) ?? [];
+  if (!queue.some(q => q.requestId === requestId)) {
+    return false;
+  }
+  queues.set(conversationId, queue.filter(q => q.requestId !== requestId));
+  return true;
+}
+
+/** Append a request to a conversation's queue; replays of a queued request are ignored. */
+function enqueue<T extends { requestId: number }>(queues: Map<string, T[]>, conversationId: string, item: T): void {
+  const queue = queues.get(conversationId) ?? [];
+  if (!queue.some(q => q.requestId === item.requestId)) {
+    queues.set(conversationId, [...queue, item]);
+  }
+}
+
 // Main app class
 class IFlowApp implements AppHost {
   private vscode: VsCodeApi;
@@ -50,17 +76,24 @@ class IFlowApp implements AppHost {
   private faviconUri: string;
 
   private composerResizeObserver: ResizeObserver | null = null;
-  private pendingConfirmation: PendingConfirmation | null = null;
-  private pendingQuestion: PendingQuestion | null = null;
-  private pendingPlanApproval: PendingPlanApproval | null = null;
+  // Pending interactions keyed by conversation id (background runs can ask too).
+  // Approvals and questions queue in arrival order; the oldest is shown first.
+  private pendingConfirmations = new Map<string, PendingConfirmation[]>();
+  private pendingQuestions = new Map<string, PendingQuestion[]>();
+  private pendingPlanApprovals = new Map<string, PendingPlanApproval>();
   private clearInputOnNextRender = false;
+  /** Message to scroll to once its conversation is rendered (from a search result). */
+  private pendingJump: { conversationId: string; messageId: string } | null = null;
   private ideContext: IDEContext = { activeFile: null, selection: null };
   private ideContextDismissed = { activeFile: false, selection: false };
 
   // AppHost public state (accessed by event binders)
   showConversationPanel = false;
   conversationSearch = '';
+  conversationSearchResults: SearchResult[] = [];
+  editingMessage: MessageEditState | null = null;
   showModeMenu = false;
+  showAccountMenu = false;
 
   constructor() {
     this.vscode = acquireVsCodeApi();
@@ -82,7 +115,8 @@ class IFlowApp implements AppHost {
         this.render();
       },
       getWorkspaceFolders: () => this.state?.workspaceFolders ?? [],
-      isMultiRoot: () => this.state?.isMultiRoot ?? false
+      isMultiRoot: () => this.state?.isMultiRoot ?? false,
+      getModels: () => this.getAvailableModels()
     });
     this.setupMessageHandler();
     this.setupDocumentClickHandler();
@@ -109,6 +143,30 @@ class IFlowApp implements AppHost {
     return this.state.conversations.find(c => c.id === this.state?.currentConversationId) || null;
   }
 
+  /** Models offered for the current conversation: its provider's list, or the catalog. */
+  private getAvailableModels(): ModelInfo[] {
+    const providerId = this.getCurrentConversation()?.providerId;
+    const provider = providerId ? this.state?.providers.find(p => p.id === providerId) : undefined;
+    return provider?.models ?? this.state?.models ?? [];
+  }
+
+  getStreamingConversationIds(): string[] {
+    return this.state?.streamingConversationIds ?? [];
+  }
+
+  jumpToMessage(conversationId: string, messageId: string): void {
+    this.pendingJump = { conversationId, messageId };
+    this.showConversationPanel = false;
+    this.conversationSearch = '';
+    this.conversationSearchResults = [];
+    if (conversationId === this.getCurrentConversationId()) {
+      this.render();
+    } else {
+      // The jump happens in the render triggered by the resulting stateUpdated
+      this.vscode.postMessage({ type: 'switchConversation', conversationId });
+    }
+  }
+
   private getWorkspaceFolderName(conversation: Conversation | null): string | undefined {
     if (!conversation?.workspaceFolderUri || !this.state?.workspaceFolders) {
       return undefined;
@@ -119,27 +177,50 @@ class IFlowApp implements AppHost {
   }
 
   getPendingConfirmation(): PendingConfirmation | null {
-    return this.pendingConfirmation;
+    return this.getConfirmationQueue()[0] ?? null;
+  }
+
+  getConfirmationQueue(): PendingConfirmation[] {
+    const id = this.getCurrentConversationId();
+    return id ? this.pendingConfirmations.get(id) ?? [] : [];
+  }
+
+  /** Drop the given requests from the queue, or the one on screen; a plain reject drops them all. */
+  clearPendingConfirmation(requestIds?: number[]): void {
+    const id = this.getCurrentConversationId();
+    if (!id) return;
+    const queue = this.pendingConfirmations.get(id) ?? [];
+    const drop = new Set(requestIds ?? queue.slice(0, 1).map(c => c.requestId));
+    this.pendingConfirmations.set(id, queue.filter(c => !drop.has(c.requestId)));
   }
 
-  clearPendingConfirmation(): void {
-    this.pendingConfirmation = null;
+  clearPendingConfirmations(): void {
+    const id = this.getCurrentConversationId();
+    if (id) this.pendingConfirmations.delete(id);
   }
 
   getPendingQuestion(): PendingQuestion | null {
-    return this.pendingQuestion;
+    return this.getQuestionQueue()[0] ?? null;
+  }
+
+  getQuestionQueue(): PendingQuestion[] {
+    const id = this.getCurrentConversationId();
+    return id ? this.pendingQuestions.get(id) ?? [] : [];
   }
 
   clearPendingQuestion(): void {
-    this.pendingQuestion = null;
+    const id = this.getCurrentConversationId();
+    if (id) this.pendingQuestions.set(id, this.getQuestionQueue().slice(1));
   }
 
   getPendingPlanApproval(): PendingPlanApproval | null {
-    return this.pendingPlanApproval;
+    const id = this.getCurrentConversationId();
+    return id ? this.pendingPlanApprovals.get(id) ?? null : null;
   }
 
   clearPendingPlanApproval(): void {
-    this.pendingPlanApproval = null;
+    const id = this.getCurrentConversationId();
+    if (id) this.pendingPlanApprovals.delete(id);
   }
 
   dismissIDEContext(type: 'activeFile' | 'selection'): void {
@@ -234,6 +315,15 @@ class IFlowApp implements AppHost {
           panel.classList.add('hidden');
         }
       }
+      // Close account popup on outside click
+      if (this.showAccountMenu) {
+        const popup = document.getElementById('account-popup');
+        const trigger = document.getElementById('account-trigger');
+        if (popup && trigger && !popup.contains(e.target as Node) && !trigger.contains(e.target as Node)) {
+          this.showAccountMenu = false;
+          popup.classList.add('hidden');
+        }
+      }
       // Close mode popup on outside click
       if (this.showModeMenu) {
         const popup = document.getElementById('mode-popup');
@@ -253,13 +343,14 @@ class IFlowApp implements AppHost {
         const wasStreaming = this.state?.isStreaming ?? false;
         this.state = message.state;
         const conversationChanged = previousConversationId !== (this.state.currentConversationId ?? null);
-        if (this.state.isStreaming && wasStreaming) {
+        if (this.state.isStreaming && wasStreaming && !conversationChanged) {
           // During streaming, only update the last message instead of full DOM rebuild
           this.updateStreamingContent();
         } else {
           // Only smooth-scroll when switching/new conversation.
           if (conversationChanged) {
             this.clearInputOnNextRender = true;
+            this.editingMessage = null;
           }
           this.render(conversationChanged);
         }
@@ -278,39 +369,82 @@ class IFlowApp implements AppHost {
         this.inputCtrl.handleFileContents(message.files);
         break;
 
-      case 'streamChunk':
+      case 'streamChunk': {
         // Streaming updates are handled by stateUpdated to avoid duplicate scroll work.
         // Exception: tool_confirmation needs to transform the composer into an approval UI.
-        if (message.chunk.chunkType === 'tool_confirmation') {
-          this.pendingConfirmation = {
-            requestId: message.chunk.requestId,
-            toolName: message.chunk.toolName,
-            description: message.chunk.description,
-          };
-          this.render();
-        } else if (message.chunk.chunkType === 'user_question') {
-          this.pendingQuestion = {
-            requestId: message.chunk.requestId,
-            questions: message.chunk.questions,
-          };
-          this.render();
-        } else if (message.chunk.chunkType === 'plan_approval') {
-          this.pendingPlanApproval = {
-            requestId: message.chunk.requestId,
-            plan: message.chunk.plan,
-          };
+        const { conversationId, chunk } = message;
+        if (chunk.chunkType === 'tool_confirmation') {
+          enqueue(this.pendingConfirmations, conversationId, {
+            conversationId,
+            requestId: chunk.requestId,
+            toolName: chunk.toolName,
+            description: chunk.description,
+            confirmationType: chunk.confirmationType,
+            input: chunk.input,
+            canAlwaysAllow: chunk.canAlwaysAllow,
+          });
+        } else if (chunk.chunkType === 'user_question') {
+          enqueue(this.pendingQuestions, conversationId, {
+            conversationId,
+            requestId: chunk.requestId,
+            questions: chunk.questions,
+          });
+        } else if (chunk.chunkType === 'plan_approval') {
+          this.pendingPlanApprovals.set(conversationId, {
+            conversationId,
+            requestId: chunk.requestId,
+            plan: chunk.plan,
+          });
+        } else {
+          break;
+        }
+        // Requests from background conversations wait until the user switches to them
+        if (conversationId === this.getCurrentConversationId()) {
           this.render();
         }
         break;
+      }
 
       case 'streamEnd':
       case 'streamError':
         // No render() needed here — the stateUpdated with isStreaming=false
         // already triggers a full render.
         // Clear any pending states when the stream ends.
-        this.pendingConfirmation = null;
-        this.pendingQuestion = null;
-        this.pendingPlanApproval = null;
+        this.pendingConfirmations.delete(message.conversationId);
+        this.pendingQuestions.delete(message.conversationId);
+        this.pendingPlanApprovals.delete(message.conversationId);
+        break;
+
+      case 'interactionResolved': {
+        // Answered here or in another view: drop the matching prompt everywhere
+        const { conversationId, requestId } = message;
+        let changed = dequeue(this.pendingConfirmations, conversationId, requestId);
+        changed = dequeue(this.pendingQuestions, conversationId, requestId) || changed;
+        if (this.pendingPlanApprovals.get(conversationId)?.requestId === requestId) {
+          this.pendingPlanApprovals.delete(conversationId);
+          changed = true;
+        }
+        if (changed && conversationId === this.getCurrentConversationId()) {
+          this.render();
+        }
+        break;
+      }
+
+      case 'renderExportHtml':
+        // HTML export reuses the webview renderers; the extension wraps the result into a page
+        this.vscode.postMessage({
+          type: 'exportHtmlRendered',
+          requestId: message.requestId,
+          html: renderConversationExport(message.conversation),
+        });
+        break;
+
+      case 'searchResults':
+        // Ignore results for a query the user has already changed
+        if (message.query === this.conversationSearch && this.showConversationPanel) {
+          this.conversationSearchResults = message.results;
+          refreshConversationPanel(this);
+        }
         break;
 
       case 'ideContextChanged': {
@@ -357,24 +491,28 @@ class IFlowApp implements AppHost {
       conversations: this.state?.conversations || [],
       search: this.conversationSearch,
       showPanel: this.showConversationPanel,
-      currentConversationId: this.state?.currentConversationId ?? null
+      currentConversationId: this.state?.currentConversationId ?? null,
+      streamingConversationIds: this.state?.streamingConversationIds ?? [],
+      searchResults: this.conversationSearchResults
     });
 
     app.innerHTML = `
       <div class="container">
-        ${renderTopBar(title, conversationPanelHtml)}
-        ${renderMessages(conversation, this.state?.isStreaming ?? false, this.faviconUri)}
+        ${renderTopBar(title, conversationPanelHtml, renderAccountMenu(this.state?.account, this.showAccountMenu))}
+        ${renderMessages(conversation, this.state?.isStreaming ?? false, this.faviconUri, this.editingMessage, this.getAvailableModels())}
         ${renderComposer({
           conversation,
           isStreaming: this.state?.isStreaming ?? false,
-          pendingConfirmation: this.pendingConfirmation,
-          pendingQuestion: this.pendingQuestion,
-          pendingPlanApproval: this.pendingPlanApproval,
+          confirmationQueue: this.getConfirmationQueue(),
+          questionQueue: this.getQuestionQueue(),
+          pendingPlanApproval: this.getPendingPlanApproval(),
           ideContextChipsHtml: renderIDEContextChips(this.ideContext, this.ideContextDismissed),
           attachedFilesHtml: this.inputCtrl.renderAttachedFilesHtml(),
           slashMenuHtml: this.slashMenu.isVisible ? this.slashMenu.renderHtml() : '',
           mentionMenuHtml: this.inputCtrl.isMentionVisible ? this.inputCtrl.renderMentionMenuHtml() : '',
           contextUsage: this.state?.contextUsage,
+          models: this.getAvailableModels(),
+          providers: this.state?.providers ?? [],
           showModeMenu: this.showModeMenu,
           workspaceFolderName: this.getWorkspaceFolderName(conversation),
           isMultiRoot: this.state?.isMultiRoot ?? false
@@ -391,6 +529,9 @@ class IFlowApp implements AppHost {
     this.inputCtrl.attachMentionListeners();
     this.inputCtrl.attachFileRemoveListeners();
     attachFileOpenListeners((msg) => this.vscode.postMessage(msg));
+    attachEditReviewListeners((msg) => this.vscode.postMessage(msg));
+    attachRewindListeners((msg) => this.vscode.postMessage(msg));
+    attachBranchListeners(this);
     attachIDEContextListeners(this);
     this.setupComposerLayoutObserver();
 
@@ -405,7 +546,9 @@ class IFlowApp implements AppHost {
       }
     }
 
-    this.scrollToBottom(smoothScrollToBottom);
+    if (!this.revealPendingJump()) {
+      this.scrollToBottom(smoothScrollToBottom);
+    }
 
     // Restore visibility after scroll position is set
     requestAnimationFrame(() => {
@@ -447,7 +590,7 @@ class IFlowApp implements AppHost {
 
     const contentEl = lastMsgEl.querySelector('.message-content');
     if (contentEl) {
-      contentEl.innerHTML = lastMsg.blocks.map(b => renderBlock(b)).join('');
+      contentEl.innerHTML = lastMsg.blocks.map((b, i) => renderBlock(b, { messageId: lastMsg.id, blockIndex: i })).join('');
 
       // Re-attach collapsible listeners for this message only
       lastMsgEl.querySelectorAll('[data-collapsible]').forEach(header => {
@@ -464,6 +607,8 @@ class IFlowApp implements AppHost {
           navigator.clipboard.writeText(copyContent);
         });
       });
+
+      attachEditReviewListeners((msg) => this.vscode.postMessage(msg));
     }
 
     // Update pending indicator
@@ -586,6 +731,23 @@ class IFlowApp implements AppHost {
     messages.style.paddingBottom = `${inset}px`;
   }
 
+  /** Scroll to and flash the message picked from search results. Returns whether it did. */
+  private revealPendingJump(): boolean {
+    const jump = this.pendingJump;
+    if (!jump || jump.conversationId !== this.getCurrentConversationId()) {
+      return false;
+    }
+    this.pendingJump = null;
+    const element = document.querySelector(`[data-message-id="${CSS.escape(jump.messageId)}"]`);
+    if (!element) {
+      return false;
+    }
+    element.scrollIntoView({ block: 'center' });
+    element.classList.add('message-highlight');
+    setTimeout(() => element.classList.remove('message-highlight'), 2000);
+    return true;
+  }
+
   private scrollToBottom(smooth = false): void {
     const container = document.getElementById('messages-container');
     if (container) {
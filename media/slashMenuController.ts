@@ -1,5 +1,4 @@
-import type { ConversationMode, ModelType, Conversation, WebviewMessage } from '../src/protocol';
-import { MODELS } from '../src/protocol';
+import type { ConversationMode, ModelType, ModelInfo, Conversation, WebviewMessage } from '../src/protocol';
 
 const SLASH_COMMANDS = [
   { command: '/', description: 'Show all commands' },
@@ -21,6 +20,7 @@ interface SlashMenuHost {
   onSlashMenuClosed(): void;
   getWorkspaceFolders(): Array<{ uri: string; name: string }>;
   isMultiRoot(): boolean;
+  getModels(): ModelInfo[];
 }
 
 export class SlashMenuController {
@@ -179,13 +179,18 @@ export class SlashMenuController {
 
   private getMenuItems(): { label: string; description: string; value: string; action: string }[] {
     if (this.mode === 'models') {
-      const currentModel = this.host.getCurrentConversation()?.model ?? 'GLM-4.7';
+      const models = this.host.getModels();
+      const currentModel = this.host.getCurrentConversation()?.model ?? models[0]?.id;
       return [
         { label: '←', description: 'Back to commands', value: 'back', action: 'back' },
-        ...(MODELS as readonly string[]).map(m => ({
-          label: m,
-          description: m === currentModel ? '✓ Current' : '',
-          value: m,
+        ...models.map(m => ({
+          label: m.displayName,
+          description: [
+            m.id === currentModel ? '✓ Current' : '',
+            `${formatContextSize(m.contextSize)} context`,
+            m.supportsThinking ? 'thinking' : '',
+          ].filter(Boolean).join(' · '),
+          value: m.id,
           action: 'selectModel'
         }))
       ];
@@ -279,7 +284,7 @@ export class SlashMenuController {
         this.host.postMessage({ type: 'clearConversation' });
         break;
       case '/compact':
-        this.host.postMessage({ type: 'sendMessage', content: '/compact', attachedFiles: [] });
+        this.host.postMessage({ type: 'compactConversation' });
         break;
       case '/mode':
         this.mode = 'modes';
@@ -313,3 +318,8 @@ export class SlashMenuController {
     this.close();
   }
 }
+
+/** "200k" / "1M" style context window size for menu descriptions. */
+function formatContextSize(tokens: number): string {
+  return tokens >= 1_000_000 ? `${+(tokens / 1_000_000).toFixed(1)}M` : `${Math.round(tokens / 1000)}k`;
+}
@@ -372,7 +372,10 @@ function renderWriteFilePreview(block: ToolBlock): string {
 
   const filePath = getInputString(block.input || {}, ['file_path', 'path', 'filePath', 'file', 'absolute_path']) || 'unknown file';
   const content = getInputString(block.input || {}, ['content', 'file_content', 'text', 'body', 'data']);
-  const raw = (content || block.output || '').trim();
+  return renderFileContent(filePath, (content || block.output || '').trim(), 'Written file');
+}
+
+function renderFileContent(filePath: string, raw: string, title: string): string {
   if (!raw) {
     return '';
   }
@@ -394,7 +397,7 @@ function renderWriteFilePreview(block: ToolBlock): string {
   return `
     <div class="edited-file-preview">
       <div class="edited-file-header">
-        <span class="edited-file-title">Written file</span>
+        <span class="edited-file-title">${title}</span>
         <span class="edited-file-name">${escapeHtml(shortenPath(filePath))}</span>
         <span class="edited-file-stats"><span class="stat-added">+${lines.length}</span></span>
       </div>
@@ -410,7 +413,10 @@ function renderEditedFilePreview(block: ToolBlock): string {
     return '';
   }
 
-  const diff = extractEditedFileDiff(block);
+  return renderDiff(extractEditedFileDiff(block), 'Edited file');
+}
+
+function renderDiff(diff: ReturnType<typeof extractEditedFileDiff>, title: string): string {
   if (!diff || diff.lines.length === 0) {
     return '';
   }
@@ -429,7 +435,7 @@ function renderEditedFilePreview(block: ToolBlock): string {
   return `
     <div class="edited-file-preview">
       <div class="edited-file-header">
-        <span class="edited-file-title">Edited file</span>
+        <span class="edited-file-title">${title}</span>
         <span class="edited-file-name">${escapeHtml(diff.fileName)}</span>
         <span class="edited-file-stats"><span class="stat-added">+${diff.added}</span> <span class="stat-removed">-${diff.removed}</span></span>
       </div>
@@ -445,8 +451,12 @@ function renderCommandPreview(block: ToolBlock): string {
   if (!preview) {
     return '';
   }
+  return renderCommand(preview.command, preview.lines);
+}
 
-  const linesHtml = preview.lines.map((line, idx) => `
+/** Command box; without output lines only the command itself is shown. */
+function renderCommand(command: string, lines: string[]): string {
+  const linesHtml = lines.map((line, idx) => `
     <div class="command-line">
       <span class="command-line-no">${idx + 1}</span>
       <span class="command-line-text">${escapeHtml(line)}</span>
@@ -457,11 +467,9 @@ function renderCommandPreview(block: ToolBlock): string {
     <div class="command-preview">
       <div class="command-preview-header">
         <span class="command-preview-title">Bash command</span>
-        <code class="command-preview-cmd">${escapeHtml(preview.command)}</code>
-      </div>
-      <div class="command-output-scroll">
-        ${linesHtml}
+        <code class="command-preview-cmd">${escapeHtml(command)}</code>
       </div>
+      ${linesHtml ? `<div class="command-output-scroll">${linesHtml}</div>` : ''}
     </div>
   `;
 }
@@ -509,6 +517,51 @@ function renderTodoWritePreview(block: ToolBlock): string {
   `;
 }
 
+/** Location of a block inside the conversation, used by interactive controls. */
+export interface BlockRef {
+  messageId: string;
+  blockIndex: number;
+}
+
+/** Per-hunk accept/revert controls for a reviewed write/edit tool block. */
+export function renderEditReview(block: ToolBlock, ref: BlockRef): string {
+  const review = block.review;
+  if (!review || review.hunks.length === 0) {
+    return '';
+  }
+
+  const pendingCount = review.hunks.filter(h => h.decision === 'pending').length;
+  const hunksHtml = review.hunks.map((hunk, idx) => {
+    const range = `@@ -${hunk.oldStart},${hunk.oldLines.length} +${hunk.newStart},${hunk.newLines.length} @@`;
+    const firstLine = (hunk.newLines.find(l => l.trim()) ?? hunk.oldLines.find(l => l.trim()) ?? '').trim();
+    const controls = hunk.decision === 'pending'
+      ? `
+        <button class="review-btn" data-review-hunk="${idx}" data-review-decision="accepted" title="Keep this change">Accept</button>
+        <button class="review-btn danger" data-review-hunk="${idx}" data-review-decision="reverted" title="Undo this change in the file">Revert</button>
+      `
+      : `<span class="review-status ${hunk.decision}">${hunk.decision === 'accepted' ? '✓ Accepted' : '↺ Reverted'}</span>`;
+    return `
+      <div class="review-hunk ${hunk.decision}">
+        <span class="review-hunk-range">${escapeHtml(range)}</span>
+        <span class="review-hunk-preview">${escapeHtml(firstLine)}</span>
+        <span class="review-hunk-stats"><span class="stat-added">+${hunk.newLines.length}</span> <span class="stat-removed">-${hunk.oldLines.length}</span></span>
+        ${controls}
+      </div>
+    `;
+  }).join('');
+
+  return `
+    <div class="edit-review" data-review-message-id="${ref.messageId}" data-review-block-index="${ref.blockIndex}">
+      <div class="edit-review-header">
+        <span class="edit-review-title">Review ${escapeHtml(getFileName(review.filePath))}</span>
+        <span class="edit-review-count">${pendingCount > 0 ? `${pendingCount} pending` : 'All reviewed'}</span>
+        <button class="review-btn" data-review-open-diff title="Open in diff editor">Open diff</button>
+      </div>
+      ${hunksHtml}
+    </div>
+  `;
+}
+
 export function renderToolDetailPreview(block: ToolBlock): string {
   const todo = renderTodoWritePreview(block);
   if (todo) {
@@ -524,3 +577,41 @@ export function renderToolDetailPreview(block: ToolBlock): string {
   }
   return renderCommandPreview(block);
 }
+
+/**
+ * What a pending tool call would do, for the approval panel: the command it
+ * runs, the diff it applies or the file it writes, falling back to its raw
+ * arguments.
+ */
+export function renderApprovalPreview(toolName: string, input: Record<string, unknown>): string {
+  const block: ToolBlock = { type: 'tool', name: toolName, input, output: '', status: 'running' };
+
+  const command = getInputString(input, ['command', 'cmd', 'script']);
+  if (command) {
+    return renderCommand(command, []);
+  }
+  const diff = renderDiff(extractEditedFileDiff(block), 'Edit');
+  if (diff) {
+    return diff;
+  }
+  const filePath = getInputString(input, ['file_path', 'path', 'filePath', 'file', 'absolute_path']);
+  const content = getInputString(input, ['content', 'file_content', 'text', 'body', 'data']);
+  if (filePath && content) {
+    return renderFileContent(filePath, content, 'Write file');
+  }
+
+  const args = Object.entries(input).filter(([key]) => !key.startsWith('_'));
+  if (args.length === 0) {
+    return '';
+  }
+  return `
+    <div class="approval-args">
+      ${args.map(([key, value]) => `
+        <div class="approval-arg">
+          <span class="approval-arg-key">${escapeHtml(key)}</span>
+          <span class="approval-arg-value">${escapeHtml(typeof value === 'string' ? value : JSON.stringify(value, null, 2))}</span>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
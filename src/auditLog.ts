@@ -0,0 +1,137 @@
+// Append-only JSONL audit log of the tool calls the agent made and the
+// approval decisions taken on them, one file per workspace.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConversationMode } from './protocol';
+import { BUILTIN_SECRET_PATTERNS, SecretPattern, redactSecrets } from './secretRedaction';
+
+export const AUDIT_LOG_FILE = 'audit.jsonl';
+
+/** Longer argument strings (file contents, long commands) are cut to this many characters. */
+export const MAX_AUDIT_VALUE_CHARS = 2000;
+
+/** A tool call status update, or an approve/reject decision on a permission request. */
+export interface AuditEvent {
+  event: 'tool_call' | 'approval';
+  tool: string;
+  args: Record<string, unknown>;
+  /** Tool status (pending, in_progress, completed, failed) or the decision (allowed, always_allowed, rejected). */
+  outcome: string;
+  requestId?: number;
+  /** The permission rule that took the decision instead of the user. */
+  rule?: string;
+}
+
+export interface AuditEntry extends AuditEvent {
+  /** ISO 8601. */
+  timestamp: string;
+  conversationId: string;
+  mode: ConversationMode;
+}
+
+/** Parse a log's content; lines that are not entries (e.g. a torn last write) are skipped. */
+export function parseAuditLog(text: string): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry?.timestamp === 'string' && typeof entry.tool === 'string' && typeof entry.outcome === 'string') {
+        entries.push(entry as AuditEntry);
+      }
+    } catch {
+      // Not JSON; keep reading
+    }
+  }
+  return entries;
+}
+
+/**
+ * Entries matching every whitespace-separated term of the query, case-insensitively.
+ * A `field:value` term matches that field only (tool:, outcome:, event:, mode:,
+ * conversation:); other terms match anywhere in the serialized entry.
+ */
+export function filterAuditEntries(entries: readonly AuditEntry[], query: string): AuditEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    const all = JSON.stringify(entry).toLowerCase();
+    return terms.every(term => {
+      const match = /^(tool|outcome|event|mode|conversation):(.+)$/.exec(term);
+      if (!match) {
+        return all.includes(term);
+      }
+      const field = match[1] === 'conversation' ? 'conversationId' : match[1] as keyof AuditEntry;
+      return String(entry[field] ?? '').toLowerCase().includes(match[2]);
+    });
+  });
+}
+
+/**
+ * Tool arguments as they are written to the log: secrets masked as in prompts
+ * and long strings truncated. The file path, if any, decides whether .env
+ * rules apply.
+ */
+export function sanitizeAuditArgs(args: Record<string, unknown>, patterns: readonly SecretPattern[]): Record<string, unknown> {
+  const source = typeof args.file_path === 'string' ? args.file_path : 'tool arguments';
+  const sanitize = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      const { text } = redactSecrets(value, source, patterns);
+      return text.length > MAX_AUDIT_VALUE_CHARS
+        ? `${text.slice(0, MAX_AUDIT_VALUE_CHARS)}… [${text.length - MAX_AUDIT_VALUE_CHARS} more characters]`
+        : text;
+    }
+    if (Array.isArray(value)) {
+      return value.map(sanitize);
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, sanitize(item)]));
+    }
+    return value;
+  };
+  return sanitize(args) as Record<string, unknown>;
+}
+
+export class AuditLog {
+  /** Appends run one after another so lines never interleave and keep their order. */
+  private pending: Promise<void> = Promise.resolve();
+  private failed = false;
+
+  /**
+   * @param onError Called once, on the first append that fails.
+   * @param secretPatterns Secrets masked in tool arguments before they are written.
+   */
+  constructor(
+    readonly filePath: string,
+    private readonly onError: (message: string) => void = () => {},
+    private readonly secretPatterns: () => readonly SecretPattern[] = () => BUILTIN_SECRET_PATTERNS
+  ) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify({ ...entry, args: sanitizeAuditArgs(entry.args, this.secretPatterns()) }) + '\n';
+    this.pending = this.pending.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line, 'utf8');
+      } catch (error) {
+        // Report the first failure only; every tool call would repeat it
+        if (!this.failed) {
+          this.failed = true;
+          this.onError(`Could not write the audit log: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    });
+    return this.pending;
+  }
+
+  async read(): Promise<AuditEntry[]> {
+    await this.pending;
+    try {
+      return parseAuditLog(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+}
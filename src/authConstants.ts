@@ -7,8 +7,14 @@ export const OAUTH_AUTH_URL = 'https://iflow.cn/oauth';
 export const OAUTH_TOKEN_URL = 'https://iflow.cn/oauth/token';
 export const OAUTH_USERINFO_URL = 'https://iflow.cn/api/oauth/getUserInfo';
 export const OAUTH_CALLBACK_PATH = '/oauth2callback';
+/** iflow.cn page that shows the authorization code for manual entry. */
+export const OAUTH_CODE_DISPLAY_URL = 'https://iflow.cn/oauth/code-display';
 export const IFLOW_DIR = path.join(os.homedir(), '.iflow');
 export const OAUTH_CREDS_PATH = path.join(IFLOW_DIR, 'oauth_creds.json');
 export const SETTINGS_PATH = path.join(IFLOW_DIR, 'settings.json');
 export const TOKEN_REFRESH_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
 export const OAUTH_CALLBACK_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes
+export const TOKEN_REFRESH_RETRY_BASE_MS = 60 * 1000; // 1 minute, doubled per failure
+export const TOKEN_REFRESH_RETRY_MAX_MS = 30 * 60 * 1000; // 30 minutes
+export const TOKEN_REFRESH_MAX_TIMER_MS = 6 * 60 * 60 * 1000; // 6 hours
+export const TOKEN_EXPIRY_WARNING_MS = 2 * 60 * 60 * 1000; // 2 hours
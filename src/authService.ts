@@ -11,27 +11,19 @@ import {
   OAUTH_TOKEN_URL,
   OAUTH_USERINFO_URL,
   OAUTH_CALLBACK_PATH,
+  OAUTH_CODE_DISPLAY_URL,
   IFLOW_DIR,
   OAUTH_CREDS_PATH,
   SETTINGS_PATH,
   TOKEN_REFRESH_THRESHOLD_MS,
+  TOKEN_REFRESH_RETRY_BASE_MS,
+  TOKEN_REFRESH_RETRY_MAX_MS,
+  TOKEN_REFRESH_MAX_TIMER_MS,
+  TOKEN_EXPIRY_WARNING_MS,
   OAUTH_CALLBACK_TIMEOUT_MS,
 } from './authConstants';
-
-/** Shape of the persisted OAuth credentials file (~/.iflow/oauth_creds.json). */
-export interface OAuthCredentials {
-  readonly access_token: string;
-  readonly refresh_token: string;
-  readonly expiry_date: number;
-  readonly token_type: string;
-  readonly scope: string;
-  readonly apiKey: string;
-  readonly userId: string;
-  readonly userName: string;
-  readonly avatar: string;
-  readonly email: string;
-  readonly phone: string;
-}
+import { CredentialStore, OAuthCredentials, OAUTH_SECRET, parseOAuthCredentials } from './credentials';
+import { AccountInfo } from './protocol';
 
 interface TokenResponse {
   readonly access_token: string;
@@ -41,6 +33,14 @@ interface TokenResponse {
   readonly scope: string;
 }
 
+/**
+ * How the authorization code gets back to the extension:
+ * - localCallback: redirect to a server on localhost (local windows)
+ * - externalUri: the same server, reached through VS Code's port forwarding
+ * - pasteCode: iflow.cn shows the code and the user pastes it into VS Code
+ */
+export type LoginFlow = 'localCallback' | 'externalUri' | 'pasteCode';
+
 interface UserInfoResponse {
   readonly apiKey: string;
   readonly userId: string;
@@ -50,38 +50,99 @@ interface UserInfoResponse {
   readonly phone: string;
 }
 
+/**
+ * Milliseconds until the next background refresh attempt: TOKEN_REFRESH_THRESHOLD_MS
+ * before expiry, or an exponential backoff after failed attempts. Never later
+ * than expiry itself; long waits are split so sleep and timer limits don't
+ * delay the refresh.
+ */
+export function refreshDelay(untilExpiry: number, failures: number): number {
+  const untilRefresh = failures > 0
+    ? Math.min(TOKEN_REFRESH_RETRY_BASE_MS * 2 ** (failures - 1), TOKEN_REFRESH_RETRY_MAX_MS)
+    : untilExpiry - TOKEN_REFRESH_THRESHOLD_MS;
+  return Math.max(0, Math.min(untilRefresh, untilExpiry, TOKEN_REFRESH_MAX_TIMER_MS));
+}
+
 export class AuthService {
   private callbackServer: http.Server | null = null;
+  private loginInProgress = false;
   private outputChannel: vscode.OutputChannel | null = null;
+  private readonly credentialsListener: vscode.Disposable;
+  // Background refresh: one pending timer; a newer plan invalidates older ones
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshGeneration = 0;
+  private refreshFailures = 0;
+  private refreshInFlight: Promise<OAuthCredentials> | null = null;
+  private expiryWarned = false;
+
+  constructor(private readonly credentials: CredentialStore) {
+    // Logins, refreshes and logouts (also from other windows) move the next refresh
+    this.credentialsListener = credentials.onDidChange((key) => {
+      if (key === OAUTH_SECRET) {
+        this.scheduleRefresh();
+      }
+    });
+  }
 
   // ── Public API ────────────────────────────────────────────────
 
   /**
    * Start the full OAuth login flow:
-   * 1. Start local callback server on a dynamic port
-   * 2. Open browser to iflow.cn OAuth page
-   * 3. Wait for callback with authorization code
-   * 4. Exchange code for tokens
-   * 5. Fetch user info (including apiKey)
-   * 6. Save credentials to ~/.iflow/
+   * 1. Open browser to iflow.cn OAuth page
+   * 2. Receive the authorization code (callback server or pasted, see LoginFlow)
+   * 3. Exchange code for tokens
+   * 4. Fetch user info (including apiKey)
+   * 5. Save credentials to SecretStorage
    */
-  async startLogin(): Promise<void> {
+  async startLogin(flow: LoginFlow = this.chooseLoginFlow()): Promise<void> {
     // Prevent concurrent login flows
-    if (this.callbackServer) {
+    if (this.loginInProgress) {
       throw new Error('A login flow is already in progress');
     }
-
-    const state = crypto.randomBytes(32).toString('hex');
-
-    let callbackResult: { code: string; port: number };
+    this.loginInProgress = true;
     try {
-      callbackResult = await this.startCallbackServer(state);
+      await this.login(flow);
     } finally {
-      this.stopCallbackServer();
+      this.loginInProgress = false;
+    }
+  }
+
+  /**
+   * The login flow for this window: the iflow.loginFlow setting, or by
+   * default the local callback in local windows. Remote windows forward the
+   * callback port to the client, except in the browser (Codespaces,
+   * vscode.dev) where forwarded ports become public tunnel URLs that iflow.cn
+   * will not redirect to; there the code is pasted instead.
+   */
+  chooseLoginFlow(): LoginFlow {
+    const configured = vscode.workspace.getConfiguration('iflow').get<string>('loginFlow', 'auto');
+    if (configured === 'localCallback' || configured === 'externalUri' || configured === 'pasteCode') {
+      return configured;
+    }
+    if (!vscode.env.remoteName) {
+      return 'localCallback';
+    }
+    if (vscode.env.uiKind === vscode.UIKind.Web || vscode.env.remoteName === 'codespaces') {
+      return 'pasteCode';
     }
+    return 'externalUri';
+  }
+
+  private async login(flow: LoginFlow): Promise<void> {
+    this.log(`Starting ${flow} login (remote: ${vscode.env.remoteName ?? 'none'})`);
+    const state = crypto.randomBytes(32).toString('hex');
 
-    const { code, port } = callbackResult;
-    const redirectUri = `http://localhost:${port}${OAUTH_CALLBACK_PATH}`;
+    let authorization: { code: string; redirectUri: string };
+    if (flow === 'pasteCode') {
+      authorization = await this.promptForCode(state);
+    } else {
+      try {
+        authorization = await this.startCallbackServer(state, flow === 'externalUri');
+      } finally {
+        this.stopCallbackServer();
+      }
+    }
+    const { code, redirectUri } = authorization;
 
     // Exchange code for tokens
     const tokens = await this.exchangeCodeForTokens(code, redirectUri);
@@ -105,18 +166,20 @@ export class AuthService {
     };
 
     // Persist credentials
-    this.writeCredentials(credentials);
-    this.updateSettings(credentials.apiKey);
+    await this.credentials.setOAuthCredentials(credentials);
+    this.updateSettings();
     this.log(`Login successful for user: ${credentials.userName}`);
   }
 
-  /** Clear stored OAuth credentials. */
-  logout(): void {
+  /**
+   * Clear the login kept in SecretStorage. ~/.iflow/settings.json belongs to
+   * the CLI, so its auth type and apiKey are left as they are.
+   */
+  async logout(): Promise<void> {
+    this.refreshFailures = 0;
+    this.expiryWarned = false;
     try {
-      if (fs.existsSync(OAUTH_CREDS_PATH)) {
-        fs.unlinkSync(OAUTH_CREDS_PATH);
-      }
-      this.clearSettings();
+      await this.credentials.clearOAuthCredentials();
       this.log('Logged out successfully');
     } catch (err) {
       this.log(`Logout error: ${err instanceof Error ? err.message : String(err)}`);
@@ -128,7 +191,7 @@ export class AuthService {
    * Returns true if auth is valid, false if not logged in or refresh failed.
    */
   async ensureValidToken(): Promise<boolean> {
-    const creds = this.readCredentials();
+    const creds = await this.credentials.getOAuthCredentials();
     if (!creds) {
       return false;
     }
@@ -139,27 +202,13 @@ export class AuthService {
     }
 
     if (timeUntilExpiry <= 0) {
-      // Token fully expired — clear and force re-login
-      this.log('OAuth token expired, clearing credentials');
-      this.logout();
+      await this.expire();
       return false;
     }
 
     // Token expiring soon — attempt refresh
     try {
-      this.log('OAuth token expiring soon, refreshing...');
-      const newTokens = await this.refreshAccessToken(creds.refresh_token);
-      const updatedCreds: OAuthCredentials = {
-        ...creds,
-        access_token: newTokens.access_token,
-        refresh_token: newTokens.refresh_token,
-        expiry_date: Date.now() + newTokens.expires_in * 1000,
-        token_type: newTokens.token_type,
-        scope: newTokens.scope,
-      };
-      this.writeCredentials(updatedCreds);
-      this.updateSettings(updatedCreds.apiKey);
-      this.log('OAuth token refreshed successfully');
+      await this.refreshCredentials(creds);
       return true;
     } catch (err) {
       this.log(`Token refresh failed: ${err instanceof Error ? err.message : String(err)}`);
@@ -167,13 +216,170 @@ export class AuthService {
     }
   }
 
-  /** Check if OAuth credentials exist on disk. */
-  isLoggedIn(): boolean {
-    return this.readCredentials() !== null;
+  /** Check if OAuth credentials are stored. */
+  async isLoggedIn(): Promise<boolean> {
+    return (await this.credentials.getOAuthCredentials()) !== null;
+  }
+
+  /** Sign-in state for the account menu: auth type, user, token expiry. */
+  async getAccountInfo(): Promise<AccountInfo> {
+    const creds = await this.credentials.getOAuthCredentials();
+    const account: AccountInfo = {
+      authType: this.readAuthType(),
+      loggedIn: creds !== null,
+      hasApiKey: !!(await this.credentials.getApiKey()),
+    };
+    if (creds) {
+      account.userName = creds.userName || undefined;
+      account.email = creds.email || undefined;
+      account.avatar = creds.avatar || undefined;
+      account.expiresAt = creds.expiry_date;
+    }
+    return account;
+  }
+
+  /**
+   * Copy a login kept in ~/.iflow/oauth_creds.json into SecretStorage when
+   * none is stored yet. The file and settings.json belong to the standalone
+   * CLI as well, so they are left as they are. Returns whether a login was copied.
+   */
+  async migrateLegacyCredentials(): Promise<boolean> {
+    // A login made since then is newer than the file
+    if (await this.credentials.getOAuthCredentials()) {
+      return false;
+    }
+    let legacy: OAuthCredentials | null = null;
+    try {
+      if (fs.existsSync(OAUTH_CREDS_PATH)) {
+        legacy = parseOAuthCredentials(fs.readFileSync(OAUTH_CREDS_PATH, 'utf-8'));
+      }
+    } catch (err) {
+      this.log(`Failed to read legacy credentials: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    // An expired CLI login would only be cleared again by the next expiry check
+    if (!legacy || legacy.expiry_date <= Date.now()) {
+      return false;
+    }
+
+    await this.credentials.setOAuthCredentials(legacy);
+    this.log(`Copied the login of ${legacy.userName || legacy.userId} to secret storage`);
+    return true;
+  }
+
+  /**
+   * (Re)plan the background refresh from the stored credentials: due
+   * TOKEN_REFRESH_THRESHOLD_MS before expiry, retried with exponential
+   * backoff after failures. Nothing is scheduled while logged out.
+   */
+  scheduleRefresh(): void {
+    void this.planRefresh();
   }
 
   dispose(): void {
     this.stopCallbackServer();
+    this.credentialsListener.dispose();
+    this.refreshGeneration++;
+    this.clearRefreshTimer();
+  }
+
+  // ── Private: Background refresh ───────────────────────────────
+
+  private async planRefresh(): Promise<void> {
+    const generation = ++this.refreshGeneration;
+    this.clearRefreshTimer();
+    const creds = await this.credentials.getOAuthCredentials();
+    if (generation !== this.refreshGeneration || !creds) {
+      return;
+    }
+
+    const delay = refreshDelay(creds.expiry_date - Date.now(), this.refreshFailures);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.runScheduledRefresh(generation);
+    }, delay);
+  }
+
+  private async runScheduledRefresh(generation: number): Promise<void> {
+    const creds = await this.credentials.getOAuthCredentials();
+    if (generation !== this.refreshGeneration || !creds) {
+      return;
+    }
+
+    const untilExpiry = creds.expiry_date - Date.now();
+    if (untilExpiry <= 0) {
+      await this.expire();
+      return;
+    }
+    if (untilExpiry > TOKEN_REFRESH_THRESHOLD_MS) {
+      // Not due yet (a split wait, or another window refreshed)
+      await this.planRefresh();
+      return;
+    }
+
+    try {
+      await this.refreshCredentials(creds);
+    } catch (err) {
+      this.refreshFailures++;
+      this.log(`Background token refresh failed (attempt ${this.refreshFailures}): ${err instanceof Error ? err.message : String(err)}`);
+      if (untilExpiry <= TOKEN_EXPIRY_WARNING_MS && !this.expiryWarned) {
+        this.expiryWarned = true;
+        const minutes = Math.max(1, Math.round(untilExpiry / 60000));
+        this.offerRelogin(`iFlow: Your login expires in ${minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 60)} h`} and could not be renewed.`);
+      }
+      await this.planRefresh();
+    }
+  }
+
+  /**
+   * Exchange the refresh token and store the new tokens; concurrent callers
+   * share one request. The tokens only go to SecretStorage: the CLI's
+   * oauth_creds.json is a separate login that the CLI renews on its own.
+   */
+  private refreshCredentials(creds: OAuthCredentials): Promise<OAuthCredentials> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = (async () => {
+        this.log('OAuth token expiring soon, refreshing...');
+        const newTokens = await this.refreshAccessToken(creds.refresh_token);
+        const updatedCreds: OAuthCredentials = {
+          ...creds,
+          access_token: newTokens.access_token,
+          refresh_token: newTokens.refresh_token,
+          expiry_date: Date.now() + newTokens.expires_in * 1000,
+          token_type: newTokens.token_type,
+          scope: newTokens.scope,
+        };
+        this.refreshFailures = 0;
+        this.expiryWarned = false;
+        await this.credentials.setOAuthCredentials(updatedCreds);
+        this.log('OAuth token refreshed successfully');
+        return updatedCreds;
+      })().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /** Token fully expired — clear it from SecretStorage (never ~/.iflow) and offer a new login. */
+  private async expire(): Promise<void> {
+    this.log('OAuth token expired, clearing credentials');
+    await this.logout();
+    this.offerRelogin('iFlow: Your login has expired.');
+  }
+
+  private offerRelogin(message: string): void {
+    void vscode.window.showWarningMessage(message, 'Log In').then((choice) => {
+      if (choice) {
+        void vscode.commands.executeCommand('iflow.login');
+      }
+    });
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
   }
 
   // ── Private: Logging ──────────────────────────────────────────
@@ -186,38 +392,25 @@ export class AuthService {
     this.outputChannel.appendLine(`[${timestamp}] ${message}`);
   }
 
-  // ── Private: Credential I/O ───────────────────────────────────
+  // ── Private: CLI settings ─────────────────────────────────
 
-  private readCredentials(): OAuthCredentials | null {
+  private readAuthType(): string | null {
     try {
-      if (!fs.existsSync(OAUTH_CREDS_PATH)) {
-        return null;
-      }
-      const content = fs.readFileSync(OAUTH_CREDS_PATH, 'utf-8');
-      const parsed = JSON.parse(content);
-      // Validate required fields exist
-      if (!parsed.access_token || !parsed.refresh_token || !parsed.apiKey) {
+      if (!fs.existsSync(SETTINGS_PATH)) {
         return null;
       }
-      return parsed as OAuthCredentials;
+      const settings = JSON.parse(fs.readFileSync(SETTINGS_PATH, 'utf-8'));
+      return typeof settings.selectedAuthType === 'string' ? settings.selectedAuthType : null;
     } catch {
       return null;
     }
   }
 
-  private writeCredentials(creds: OAuthCredentials): void {
-    if (!fs.existsSync(IFLOW_DIR)) {
-      fs.mkdirSync(IFLOW_DIR, { recursive: true });
-    }
-    const content = JSON.stringify(creds, null, 2);
-    if (process.platform === 'win32') {
-      fs.writeFileSync(OAUTH_CREDS_PATH, content, 'utf-8');
-    } else {
-      fs.writeFileSync(OAUTH_CREDS_PATH, content, { encoding: 'utf-8', mode: 0o600 });
-    }
-  }
-
-  private updateSettings(apiKey: string): void {
+  /**
+   * Select OAuth in the CLI settings; the key itself is only injected at
+   * launch. Other fields, an apiKey of the CLI's own login included, are kept.
+   */
+  private updateSettings(): void {
     try {
       let settings: Record<string, unknown> = {};
       if (fs.existsSync(SETTINGS_PATH)) {
@@ -227,10 +420,9 @@ export class AuthService {
           // If parse fails, start fresh
         }
       }
-      const updated = {
+      const updated: Record<string, unknown> = {
         ...settings,
         selectedAuthType: 'oauth-iflow',
-        apiKey,
       };
       if (!fs.existsSync(IFLOW_DIR)) {
         fs.mkdirSync(IFLOW_DIR, { recursive: true });
@@ -246,36 +438,18 @@ export class AuthService {
     }
   }
 
-  private clearSettings(): void {
-    try {
-      if (!fs.existsSync(SETTINGS_PATH)) {
-        return;
-      }
-      const settings: Record<string, unknown> = JSON.parse(
-        fs.readFileSync(SETTINGS_PATH, 'utf-8')
-      );
-      delete settings.selectedAuthType;
-      delete settings.apiKey;
-      const content = JSON.stringify(settings, null, 2);
-      if (process.platform === 'win32') {
-        fs.writeFileSync(SETTINGS_PATH, content, 'utf-8');
-      } else {
-        fs.writeFileSync(SETTINGS_PATH, content, { encoding: 'utf-8', mode: 0o600 });
-      }
-    } catch (err) {
-      this.log(`Failed to clear settings: ${err instanceof Error ? err.message : String(err)}`);
-    }
-  }
-
   // ── Private: Callback Server ──────────────────────────────────
 
   /**
    * Start a local HTTP server on a dynamic port and wait for the OAuth callback.
-   * Opens the browser to the OAuth authorization URL.
-   * Returns the authorization code and the port the server is listening on.
+   * Opens the browser to the OAuth authorization URL; with forwardPort the
+   * redirect goes to the client-side address VS Code forwards to the server.
+   * Returns the authorization code and the redirect URI it was issued for.
    */
-  private startCallbackServer(expectedState: string): Promise<{ code: string; port: number }> {
-    return new Promise<{ code: string; port: number }>((resolve, reject) => {
+  private startCallbackServer(expectedState: string, forwardPort: boolean): Promise<{ code: string; redirectUri: string }> {
+    return new Promise<{ code: string; redirectUri: string }>((resolve, reject) => {
+      let redirectUri = '';
+
       const server = http.createServer((req, res) => {
         const parsed = url.parse(req.url || '', true);
 
@@ -311,8 +485,7 @@ export class AuthService {
           </div>
         </body></html>`);
 
-        const port = (server.address() as { port: number }).port;
-        resolve({ code, port });
+        resolve({ code, redirectUri });
       });
 
       this.callbackServer = server;
@@ -326,13 +499,25 @@ export class AuthService {
       server.on('close', () => clearTimeout(timeout));
 
       // Listen on port 0 (OS picks an available port)
-      server.listen(0, 'localhost', () => {
+      server.listen(0, 'localhost', async () => {
         const addr = server.address() as { port: number };
         const port = addr.port;
         this.log(`OAuth callback server listening on port ${port}`);
 
+        const localUri = vscode.Uri.parse(`http://localhost:${port}${OAUTH_CALLBACK_PATH}`);
+        try {
+          redirectUri = (forwardPort ? await vscode.env.asExternalUri(localUri) : localUri).toString(true);
+        } catch (err) {
+          clearTimeout(timeout);
+          reject(new Error(`Failed to forward the OAuth callback port: ${err instanceof Error ? err.message : String(err)}`));
+          return;
+        }
+        if (forwardPort) {
+          this.log(`OAuth callback forwarded to ${redirectUri}`);
+        }
+
         // Construct the OAuth URL and open the browser
-        const authUrl = `${OAUTH_AUTH_URL}?loginMethod=phone&type=phone&redirect=${encodeURIComponent(`http://localhost:${port}${OAUTH_CALLBACK_PATH}`)}&state=${expectedState}&client_id=${OAUTH_CLIENT_ID}`;
+        const authUrl = this.buildAuthUrl(redirectUri, expectedState);
         this.log(`Opening browser: ${authUrl}`);
         vscode.env.openExternal(vscode.Uri.parse(authUrl));
       });
@@ -344,6 +529,33 @@ export class AuthService {
     });
   }
 
+  /**
+   * Manual flow: iflow.cn redirects to a page that displays the code, and the
+   * user pastes it here. Needs no inbound connection to this machine.
+   */
+  private async promptForCode(state: string): Promise<{ code: string; redirectUri: string }> {
+    const redirectUri = OAUTH_CODE_DISPLAY_URL;
+    const authUrl = this.buildAuthUrl(redirectUri, state);
+    this.log(`Opening browser for manual code entry: ${authUrl}`);
+    const opened = await vscode.env.openExternal(vscode.Uri.parse(authUrl));
+    const code = await vscode.window.showInputBox({
+      title: 'iFlow login',
+      prompt: opened
+        ? 'Sign in in the browser, then paste the authorization code shown there.'
+        : `Open ${authUrl} in a browser, sign in, then paste the authorization code shown there.`,
+      placeHolder: 'Authorization code',
+      ignoreFocusOut: true,
+    });
+    if (!code?.trim()) {
+      throw new Error('Login cancelled');
+    }
+    return { code: code.trim(), redirectUri };
+  }
+
+  private buildAuthUrl(redirectUri: string, state: string): string {
+    return `${OAUTH_AUTH_URL}?loginMethod=phone&type=phone&redirect=${encodeURIComponent(redirectUri)}&state=${state}&client_id=${OAUTH_CLIENT_ID}`;
+  }
+
   private stopCallbackServer(): void {
     if (this.callbackServer) {
       try {
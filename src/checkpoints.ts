@@ -0,0 +1,194 @@
+// Workspace checkpoints: snapshot files before an assistant turn edits them,
+// and restore those snapshots when the user rewinds the conversation.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Checkpoint, FileSnapshot, Message } from './protocol';
+import { isFileEditTool } from './diffReview';
+
+export const CHECKPOINT_DIR = 'checkpoints';
+
+/** Files above this size are not snapshotted. */
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+
+/** Snapshot content kept on disk across all conversations of one storage. */
+export const MAX_CHECKPOINT_STORE_BYTES = 256 * 1024 * 1024;
+
+/** Unreferenced snapshots this recent are kept; another window on the same storage may have just written them. */
+const PRUNE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** A file the recorder saw: its snapshot, or its path when the checkpoint store was full. */
+export type CapturedFile = FileSnapshot | { path: string; skipped: true };
+
+/** Every snapshot held by these messages and their sibling branches. */
+export function collectSnapshots(messages: readonly Message[]): FileSnapshot[] {
+  const snapshots: FileSnapshot[] = [];
+  for (const message of messages) {
+    snapshots.push(...(message.checkpoint?.files ?? []));
+    for (const branch of message.branchSet?.branches ?? []) {
+      snapshots.push(...(branch ? collectSnapshots(branch.messages) : []));
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Snapshot content stored as files named by their SHA-256 under the
+ * extension's storage, so conversations only keep the hash and identical
+ * content is stored once.
+ */
+export class CheckpointBlobStore {
+  /** Bytes in the directory, read on first write. */
+  private usedBytes: number | null = null;
+
+  constructor(private readonly dir: string, private readonly maxBytes = MAX_CHECKPOINT_STORE_BYTES) {}
+
+  /**
+   * Store content and return its hash, or null when the store is full or the
+   * write fails. Synchronous so a capture completes before the CLI writes.
+   */
+  put(content: string): string | null {
+    const hash = crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+    const file = path.join(this.dir, hash);
+    try {
+      if (fs.existsSync(file)) {
+        return hash;
+      }
+      const size = Buffer.byteLength(content, 'utf-8');
+      const used = this.usedBytes ?? this.measure();
+      if (used + size > this.maxBytes) {
+        return null;
+      }
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(file, content, 'utf-8');
+      this.usedBytes = used + size;
+      return hash;
+    } catch {
+      return null;
+    }
+  }
+
+  read(hash: string): Promise<string> {
+    return fs.promises.readFile(path.join(this.dir, hash), 'utf-8');
+  }
+
+  /** Delete stored content none of the referenced hashes point to. */
+  async prune(referenced: ReadonlySet<string>, now = Date.now()): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch {
+      return;
+    }
+    for (const name of names) {
+      if (referenced.has(name)) {
+        continue;
+      }
+      const file = path.join(this.dir, name);
+      try {
+        if (now - (await fs.promises.stat(file)).mtimeMs >= PRUNE_GRACE_MS) {
+          await fs.promises.rm(file, { force: true });
+        }
+      } catch {
+        // Removed meanwhile
+      }
+    }
+    this.usedBytes = null;
+  }
+
+  private measure(): number {
+    if (!fs.existsSync(this.dir)) {
+      return 0;
+    }
+    return fs.readdirSync(this.dir).reduce((total, name) => total + fs.statSync(path.join(this.dir, name)).size, 0);
+  }
+}
+
+/**
+ * Records the content of every file a run's write/edit tools touch, as it was
+ * before the turn. Only the first sighting of each path is kept, so repeated
+ * edits to the same file within a turn still restore to the original.
+ */
+export class CheckpointRecorder {
+  private readonly seen = new Set<string>();
+  private cwd: string | undefined;
+
+  constructor(private readonly blobs: CheckpointBlobStore) {}
+
+  /** Reset state at the start of each run; relative paths resolve against cwd. */
+  reset(cwd?: string): void {
+    this.seen.clear();
+    this.cwd = cwd;
+  }
+
+  /**
+   * Observe a tool_start chunk. Returns a snapshot the first time a file path
+   * is seen for a write/edit tool, or null otherwise.
+   */
+  capture(toolName: string, input: Record<string, unknown>): CapturedFile | null {
+    if (!isFileEditTool(toolName)) {
+      return null;
+    }
+    const rawPath = typeof input.file_path === 'string' && input.file_path ? input.file_path : null;
+    const filePath = rawPath && this.cwd ? path.resolve(this.cwd, rawPath) : rawPath;
+    if (!filePath || this.seen.has(filePath)) {
+      return null;
+    }
+    this.seen.add(filePath);
+
+    try {
+      // Synchronous read: the chunk callback must not yield before the CLI writes
+      if (!fs.existsSync(filePath)) {
+        return { path: filePath, blob: null };
+      }
+      if (fs.statSync(filePath).size > MAX_SNAPSHOT_BYTES) {
+        return null;
+      }
+      const blob = this.blobs.put(fs.readFileSync(filePath, 'utf-8'));
+      return blob ? { path: filePath, blob } : { path: filePath, skipped: true };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Collapse checkpoints (oldest first) into the state each file should be
+ * restored to. The earliest snapshot of a path is the one from before any of
+ * the rewound turns touched it.
+ */
+export function mergeCheckpoints(checkpoints: Checkpoint[]): FileSnapshot[] {
+  const byPath = new Map<string, FileSnapshot>();
+  for (const checkpoint of checkpoints) {
+    for (const file of checkpoint.files) {
+      if (!byPath.has(file.path)) {
+        byPath.set(file.path, file);
+      }
+    }
+  }
+  return [...byPath.values()];
+}
+
+/**
+ * Write checkpointed content back to disk. Files that did not exist when the
+ * checkpoint was taken are deleted. Returns the paths that failed to restore.
+ */
+export async function restoreCheckpoints(checkpoints: Checkpoint[], blobs: CheckpointBlobStore): Promise<string[]> {
+  const failed: string[] = [];
+  for (const snapshot of mergeCheckpoints(checkpoints)) {
+    try {
+      // Checkpoints of earlier versions hold the content inline
+      const content = snapshot.content !== undefined ? snapshot.content : snapshot.blob === null ? null : await blobs.read(snapshot.blob);
+      if (content === null) {
+        await fs.promises.rm(snapshot.path, { force: true });
+      } else {
+        await fs.promises.mkdir(path.dirname(snapshot.path), { recursive: true });
+        await fs.promises.writeFile(snapshot.path, content, 'utf-8');
+      }
+    } catch {
+      failed.push(snapshot.path);
+    }
+  }
+  return failed;
+}
@@ -2,6 +2,8 @@
 
 import { StreamChunk, AttachedFile, IDEContext } from './protocol';
 import { ThinkingParser } from './thinkingParser';
+import { AuditEvent } from './auditLog';
+import { RedactionFinding, SecretPattern, redactSecrets } from './secretRedaction';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SDKModule = any;
@@ -12,31 +14,59 @@ interface RunOptionsLike {
   workspaceFiles?: string[];
   ideContext?: IDEContext;
   cwd?: string;
+  history?: string;
+  /** Secrets to mask in attached files and the selection; nothing is masked when unset. */
+  secretPatterns?: readonly SecretPattern[];
 }
 
 export class ChunkMapper {
   private parser: ThinkingParser | null = null;
   private inNativeThinking = false;
+  /** Last status reported for each tool call id, so each change is audited once. */
+  private toolStatuses = new Map<string, string>();
 
+  /**
+   * @param onToolCall Called for every tool call status change the CLI reports
+   *   (for the audit log).
+   */
   constructor(
     private getSDK: () => Promise<SDKModule>,
-    private log: (message: string) => void
+    private log: (message: string) => void,
+    private onToolCall?: (event: AuditEvent) => void
   ) {}
 
   /** Reset state at the start of each run. */
   reset(): void {
     this.inNativeThinking = false;
     this.parser = new ThinkingParser();
+    this.toolStatuses.clear();
   }
 
-  /** Build the final prompt string with workspace and attached file context. */
-  buildPrompt(options: RunOptionsLike): string {
+  /**
+   * Build the final prompt string with workspace and attached file context.
+   * Secrets in attached content, the selection and replayed history are
+   * masked; redactions lists what was masked where.
+   */
+  buildPrompt(options: RunOptionsLike): { prompt: string; redactions: RedactionFinding[] } {
     let prompt = '';
+    const redactions: RedactionFinding[] = [];
+    const redact = (text: string, source: string): string => {
+      if (!options.secretPatterns) {
+        return text;
+      }
+      const result = redactSecrets(text, source, options.secretPatterns);
+      redactions.push(...result.findings);
+      return result.text;
+    };
 
     if (options.cwd) {
       prompt += `=== Working Directory ===\n${options.cwd}\n=== End Working Directory ===\n\n`;
     }
 
+    if (options.history) {
+      prompt += `=== Conversation History ===\n${redact(options.history, 'conversation history')}\n=== End Conversation History ===\n\n`;
+    }
+
     if (options.workspaceFiles && options.workspaceFiles.length > 0) {
       prompt += '=== Workspace Files ===\n';
       prompt += options.workspaceFiles.join('\n');
@@ -51,7 +81,7 @@ export class ChunkMapper {
       }
       if (ctx.selection) {
         prompt += `Selected Text (${ctx.selection.fileName}:${ctx.selection.lineStart}-${ctx.selection.lineEnd}):\n`;
-        prompt += ctx.selection.text;
+        prompt += redact(ctx.selection.text, `selection (${ctx.selection.fileName})`);
         prompt += '\n';
       }
       prompt += '=== End IDE Context ===\n\n';
@@ -61,7 +91,7 @@ export class ChunkMapper {
       prompt += '=== Attached Files ===\n';
       for (const file of options.attachedFiles) {
         prompt += `--- ${file.path} ---\n`;
-        prompt += file.content || '';
+        prompt += redact(file.content || '', file.path);
         if (file.truncated) {
           prompt += '\n[... truncated ...]\n';
         }
@@ -71,7 +101,7 @@ export class ChunkMapper {
     }
 
     prompt += options.prompt;
-    return prompt;
+    return { prompt, redactions };
   }
 
   /**
@@ -133,6 +163,59 @@ export class ChunkMapper {
     return input;
   }
 
+  private recordToolCall(message: { status?: string; toolCallId?: string; id?: string }, toolName: string, input: Record<string, unknown>): void {
+    const status = message.status || 'unknown';
+    const id = message.toolCallId ?? message.id;
+    if (id !== undefined) {
+      if (this.toolStatuses.get(String(id)) === status) {
+        return;
+      }
+      this.toolStatuses.set(String(id), status);
+    }
+    this.onToolCall?.({ event: 'tool_call', tool: toolName, args: input, outcome: status });
+  }
+
+  /**
+   * Tool arguments of a permission request (the ACP toolCall patchPermission
+   * forwards), in the shape the preview renderers read: its raw input, with
+   * diff content as old_string/new_string (or content for a new file) and the
+   * first location as file_path.
+   */
+  permissionInput(toolCall: Record<string, unknown>): Record<string, unknown> {
+    const input: Record<string, unknown> = typeof toolCall.rawInput === 'object' && toolCall.rawInput !== null
+      ? { ...(toolCall.rawInput as Record<string, unknown>) }
+      : {};
+
+    if (input.absolute_path && !input.file_path) {
+      input.file_path = input.absolute_path;
+    }
+    if (typeof toolCall.command === 'string' && !input.command) {
+      input.command = toolCall.command;
+    }
+
+    const content: Array<{ type?: unknown; path?: unknown; oldText?: unknown; newText?: unknown } | null> =
+      Array.isArray(toolCall.content) ? toolCall.content : [];
+    const diff = content.find(item => item?.type === 'diff');
+    if (diff) {
+      if (diff.path && !input.file_path) {
+        input.file_path = diff.path;
+      }
+      if (diff.oldText && !input.old_string) {
+        input.old_string = diff.oldText;
+        input.new_string = diff.newText ?? '';
+      } else if (!diff.oldText && typeof diff.newText === 'string' && !input.content) {
+        input.content = diff.newText;
+      }
+    }
+
+    const locations: Array<{ path?: unknown } | null> = Array.isArray(toolCall.locations) ? toolCall.locations : [];
+    const location = locations[0];
+    if (location?.path && !input.file_path) {
+      input.file_path = location.path;
+    }
+    return input;
+  }
+
   /** Map a single SDK message into one or more StreamChunks. */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async mapMessageToChunks(message: any): Promise<StreamChunk[]> {
@@ -168,14 +251,22 @@ export class ChunkMapper {
       case sdk.MessageType.TOOL_CALL: {
         this.log(`TOOL_CALL: status=${message.status}, toolName=${message.toolName}, label=${message.label}, args=${JSON.stringify(message.args)}`);
 
+        // A tool call a deny rule answered (injected by patchPermission)
+        if (message._permissionNotice) {
+          chunks.push({ chunkType: 'warning', message: message._permissionNotice });
+          break;
+        }
+
         // Check if this is a permission confirmation request (injected by patchPermission)
         if (message.confirmation && message._requestId !== undefined) {
+          const input = this.permissionInput(message._toolCall || {});
           // Emit tool_start so the tool appears as a running entry in the messages
           chunks.push({
             chunkType: 'tool_start',
             name: message.toolName || message.label || 'unknown',
-            input: {},
-            label: message.label || undefined
+            input,
+            label: message.label || undefined,
+            toolCallId: message._toolCall?.toolCallId,
           });
           // Emit tool_confirmation so the webview can show the approval UI in the composer
           chunks.push({
@@ -184,6 +275,8 @@ export class ChunkMapper {
             toolName: message.toolName || message.label || 'unknown',
             description: message.confirmation.description || '',
             confirmationType: message.confirmation.type || 'other',
+            input,
+            canAlwaysAllow: message._canAlwaysAllow !== false,
           });
           break;
         }
@@ -210,6 +303,8 @@ export class ChunkMapper {
 
         const enrichedInput = this.enrichToolInput(message);
         const toolName = message.toolName || message.label || 'unknown';
+        const toolCallId = message.toolCallId ?? message.id;
+        this.recordToolCall(message, toolName, enrichedInput);
 
         // Clean up label: strip JSON args from subagent format "toolName: {json}"
         let cleanLabel: string | undefined = message.label || undefined;
@@ -228,7 +323,8 @@ export class ChunkMapper {
             chunkType: 'tool_start',
             name: toolName,
             input: enrichedInput,
-            label: cleanLabel
+            label: cleanLabel,
+            toolCallId
           });
         } else if (message.status === 'completed') {
           // Send an input update before completion (block is still 'running')
@@ -238,7 +334,8 @@ export class ChunkMapper {
               chunkType: 'tool_start',
               name: toolName,
               input: enrichedInput,
-              label: cleanLabel
+              label: cleanLabel,
+              toolCallId
             });
           }
           if (message.output) {
@@ -249,7 +346,8 @@ export class ChunkMapper {
           }
           chunks.push({
             chunkType: 'tool_end',
-            status: 'completed'
+            status: 'completed',
+            toolCallId
           });
         } else if (message.status === 'failed') {
           // Send an input update before failure so the renderer has access to data
@@ -258,7 +356,8 @@ export class ChunkMapper {
               chunkType: 'tool_start',
               name: toolName,
               input: enrichedInput,
-              label: cleanLabel
+              label: cleanLabel,
+              toolCallId
             });
           }
           if (message.output) {
@@ -269,7 +368,8 @@ export class ChunkMapper {
           }
           chunks.push({
             chunkType: 'tool_end',
-            status: 'error'
+            status: 'error',
+            toolCallId
           });
         }
         break;
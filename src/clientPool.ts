@@ -0,0 +1,148 @@
+// Pool of IFlowClient connections keyed by conversation id, so several
+// conversations can stream at the same time without sharing a CLI session.
+
+import * as vscode from 'vscode';
+import { IFlowClient } from './iflowClient';
+import { ModelInfo } from './protocol';
+
+interface PooledClient {
+  client: IFlowClient;
+  portOffset: number;
+  lastUsed: number;
+}
+
+export class ClientPool {
+  private readonly entries = new Map<string, PooledClient>();
+  /** Client not yet bound to a conversation (used for availability checks). */
+  private spare: PooledClient | null = null;
+  /** Port offsets of clients still shutting down; their CLI may hold the port. */
+  private readonly closing = new Set<number>();
+
+  /**
+   * @param isBusy Whether a conversation currently has a run in progress;
+   *   busy clients are never evicted.
+   * @param onModelsReported Called with the model list any client's CLI reports.
+   */
+  constructor(
+    private readonly isBusy: (conversationId: string) => boolean,
+    private readonly onModelsReported?: (models: ModelInfo[]) => void
+  ) {}
+
+  /**
+   * Get the client bound to a conversation, creating one if needed.
+   * When the pool is full, the least recently used idle clients are disposed
+   * first. maxConnections is a soft limit: busy clients are never evicted, so
+   * when every client is running the pool grows past it rather than queueing.
+   */
+  async acquire(conversationId: string): Promise<IFlowClient> {
+    const existing = this.entries.get(conversationId);
+    if (existing) {
+      existing.lastUsed = Date.now();
+      return existing.client;
+    }
+
+    await this.evictIdle(this.getMaxConnections() - 1);
+
+    // Another acquire for the same conversation may have finished meanwhile
+    const bound = this.entries.get(conversationId);
+    if (bound) {
+      bound.lastUsed = Date.now();
+      return bound.client;
+    }
+
+    // Adopt the spare so a CLI process started by an availability check is reused
+    const entry = this.spare ?? this.createEntry();
+    this.spare = null;
+    entry.lastUsed = Date.now();
+    this.entries.set(conversationId, entry);
+    return entry.client;
+  }
+
+  /** The client bound to a conversation, if any. */
+  get(conversationId: string): IFlowClient | undefined {
+    return this.entries.get(conversationId)?.client;
+  }
+
+  /** A client that is not bound to any conversation, for CLI availability checks. */
+  getSpare(): IFlowClient {
+    if (!this.spare) {
+      this.spare = this.createEntry();
+    }
+    return this.spare.client;
+  }
+
+  /** Disconnect and forget the client of a conversation (e.g. when it is deleted). */
+  async release(conversationId: string): Promise<void> {
+    const entry = this.entries.get(conversationId);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(conversationId);
+    await this.disposeEntry(entry);
+  }
+
+  async disposeAll(): Promise<void> {
+    const entries = [...this.entries.values()];
+    if (this.spare) {
+      entries.push(this.spare);
+    }
+    this.entries.clear();
+    this.spare = null;
+    await Promise.all(entries.map(e => this.disposeEntry(e)));
+  }
+
+  private createEntry(): PooledClient {
+    const portOffset = this.nextPortOffset();
+    return { client: new IFlowClient(portOffset, this.onModelsReported), portOffset, lastUsed: Date.now() };
+  }
+
+  /** Smallest port offset not used by a live or closing client. */
+  private nextPortOffset(): number {
+    const used = new Set([...this.entries.values()].map(e => e.portOffset));
+    for (const offset of this.closing) {
+      used.add(offset);
+    }
+    if (this.spare) {
+      used.add(this.spare.portOffset);
+    }
+    let offset = 0;
+    while (used.has(offset)) {
+      offset++;
+    }
+    return offset;
+  }
+
+  /** Dispose the least recently used idle clients down to limit, waiting until their CLIs are shut down. */
+  private async evictIdle(limit: number): Promise<void> {
+    const idle = [...this.entries.entries()]
+      .filter(([id]) => !this.isBusy(id))
+      .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+
+    const evicted: PooledClient[] = [];
+    let excess = this.entries.size - Math.max(0, limit);
+    for (const [id, entry] of idle) {
+      if (excess <= 0) {
+        break;
+      }
+      this.entries.delete(id);
+      evicted.push(entry);
+      excess--;
+    }
+    await Promise.all(evicted.map(e => this.disposeEntry(e)));
+  }
+
+  /** Dispose a client that is already unbound, keeping its port reserved until it is down. */
+  private async disposeEntry(entry: PooledClient): Promise<void> {
+    this.closing.add(entry.portOffset);
+    try {
+      await entry.client.dispose();
+    } finally {
+      this.closing.delete(entry.portOffset);
+    }
+  }
+
+  private getMaxConnections(): number {
+    const max = vscode.workspace.getConfiguration('iflow').get<number>('maxConnections', 3);
+    return Math.max(1, Math.floor(max));
+  }
+}
@@ -0,0 +1,233 @@
+// Serialize conversations for sharing outside the extension: Markdown for
+// reading, a versioned JSON document for tools (and re-import), and a
+// standalone HTML page whose body is rendered by the webview.
+
+import { Conversation, Message, OutputBlock, AttachedFile } from './protocol';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_SCHEMA = 'iflow.conversation';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * JSON export document. Only the fields listed here are written, in this
+ * order, so internal additions to Conversation/Message do not change the
+ * format. Local-only state (file checkpoints, hunk review decisions,
+ * streaming flags) is left out.
+ */
+export interface ExportedConversation {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+export function toExportDocument(conversation: Conversation, now = Date.now()): ExportedConversation {
+  return {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      messages: conversation.messages.map(exportMessage),
+      mode: conversation.mode,
+      think: conversation.think,
+      model: conversation.model,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      sessionId: conversation.sessionId,
+      workspaceFolderUri: conversation.workspaceFolderUri,
+      seedContext: conversation.seedContext,
+    },
+  };
+}
+
+export function toJson(conversation: Conversation, now = Date.now()): string {
+  return JSON.stringify(toExportDocument(conversation, now), null, 2) + '\n';
+}
+
+function exportMessage(message: Message): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    blocks: message.blocks.map(exportBlock),
+    attachedFiles: message.attachedFiles.map(exportAttachedFile),
+    timestamp: message.timestamp,
+  };
+}
+
+function exportAttachedFile(file: AttachedFile): AttachedFile {
+  return { path: file.path, content: file.content, truncated: file.truncated };
+}
+
+function exportBlock(block: OutputBlock): OutputBlock {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', content: block.content };
+    case 'code':
+      return { type: 'code', language: block.language, filename: block.filename, content: block.content };
+    case 'tool':
+      return { type: 'tool', name: block.name, input: block.input, output: block.output, status: block.status, label: block.label };
+    case 'thinking':
+      return { type: 'thinking', content: block.content, collapsed: block.collapsed };
+    case 'file_ref':
+      return { type: 'file_ref', path: block.path, lineStart: block.lineStart, lineEnd: block.lineEnd };
+    case 'plan':
+      return { type: 'plan', entries: block.entries.map(e => ({ content: e.content, status: e.status, priority: e.priority })) };
+    case 'error':
+      return { type: 'error', message: block.message };
+    case 'warning':
+      return { type: 'warning', message: block.message };
+  }
+}
+
+// ── Markdown ────────────────────────────────────────────────────────
+
+export function toMarkdown(conversation: Conversation): string {
+  const lines: string[] = [
+    `# ${conversation.title}`,
+    '',
+    `- Model: ${conversation.model}`,
+    `- Mode: ${conversation.mode}`,
+    `- Created: ${new Date(conversation.createdAt).toISOString()}`,
+  ];
+  if (conversation.workspaceFolderUri) {
+    lines.push(`- Workspace: ${conversation.workspaceFolderUri}`);
+  }
+
+  for (const message of conversation.messages) {
+    lines.push('', `## ${message.role === 'user' ? 'You' : 'iFlow'} · ${new Date(message.timestamp).toISOString()}`, '');
+    if (message.attachedFiles.length > 0) {
+      lines.push('Attached files:', ...message.attachedFiles.map(f => `- \`${f.path}\``), '');
+    }
+    for (const block of message.blocks) {
+      lines.push(renderMarkdownBlock(block), '');
+    }
+  }
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+function renderMarkdownBlock(block: OutputBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.content.trim();
+
+    case 'code':
+      return (block.filename ? `\`${block.filename}\`\n\n` : '') + fence(block.content, block.language);
+
+    case 'tool': {
+      const status = block.status === 'completed' ? '✓' : block.status === 'error' ? '✗' : '⏳';
+      const parts = [`**${status} Tool: ${block.label || block.name}**`, '', fence(JSON.stringify(block.input, null, 2), 'json')];
+      if (block.output.trim()) {
+        parts.push('', 'Output:', '', fence(block.output.trimEnd(), ''));
+      }
+      return parts.join('\n');
+    }
+
+    case 'thinking':
+      return `<details>\n<summary>Thinking</summary>\n\n${block.content.trim()}\n\n</details>`;
+
+    case 'file_ref': {
+      const range = block.lineStart ? `:${block.lineStart}${block.lineEnd ? `-${block.lineEnd}` : ''}` : '';
+      return `📄 \`${block.path}${range}\``;
+    }
+
+    case 'plan':
+      return ['**Plan**', '', ...block.entries.map(e => {
+        const mark = e.status === 'completed' ? 'x' : ' ';
+        const suffix = e.status === 'in_progress' ? ' _(in progress)_' : '';
+        return `- [${mark}] ${e.content}${suffix}`;
+      })].join('\n');
+
+    case 'error':
+      return `> ❌ ${block.message}`;
+
+    case 'warning':
+      return `> ⚠ ${block.message}`;
+  }
+}
+
+/** Fenced code block whose fence is longer than any backtick run in the content. */
+function fence(content: string, language: string): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+// ── HTML ────────────────────────────────────────────────────────────
+
+/**
+ * Light-theme values for the VS Code theme variables used by the webview
+ * stylesheet, so the exported page renders outside the editor.
+ */
+const THEME_FALLBACK_CSS = `:root {
+  --vscode-editor-background: #ffffff;
+  --vscode-sideBar-background: #f8f8f8;
+  --vscode-foreground: #1f1f1f;
+  --vscode-descriptionForeground: #616161;
+  --vscode-panel-border: #e5e5e5;
+  --vscode-widget-border: #e5e5e5;
+  --vscode-textLink-foreground: #005fb8;
+  --vscode-editor-font-family: Menlo, Consolas, 'Courier New', monospace;
+  --vscode-textCodeBlock-background: #f3f3f3;
+  --vscode-editor-lineHighlightBackground: #f5f5f5;
+  --vscode-editorWidget-background: #f8f8f8;
+  --vscode-errorForeground: #c72e0f;
+  --vscode-inputValidation-errorBackground: #fdecea;
+  --vscode-terminal-ansiGreen: #00bc00;
+  --vscode-terminal-ansiYellow: #949800;
+  --vscode-badge-background: #cccccc;
+  --vscode-badge-foreground: #1f1f1f;
+}
+.copy-btn { display: none; }
+.export-page { max-width: 960px; margin: 0 auto; padding: 24px; }
+.export-page .thinking-content { white-space: pre-wrap; }
+.export-title { font-size: 20px; margin-bottom: 16px; }
+`;
+
+/**
+ * Wrap the webview-rendered conversation body into a self-contained page,
+ * inlining the extension stylesheet.
+ */
+export function toHtmlDocument(conversation: Conversation, bodyHtml: string, stylesheet: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtmlText(conversation.title)}</title>
+  <style>
+${THEME_FALLBACK_CSS}
+${stylesheet}
+  </style>
+</head>
+<body>
+  <main class="export-page">
+${bodyHtml}
+  </main>
+</body>
+</html>
+`;
+}
+
+function escapeHtmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** File name suggested in the save dialog. */
+export function suggestExportFileName(conversation: Conversation, format: ExportFormat): string {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9\u4e00-\u9fff]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'conversation';
+  return `${slug}.${EXPORT_FILE_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,189 @@
+// Parse and validate conversations exported as JSON (see conversationExport),
+// so a transcript shared by a teammate can be added to the local store.
+
+import { Conversation, ConversationMode, Message, OutputBlock, AttachedFile, ModelInfo } from './protocol';
+import { EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION } from './conversationExport';
+import { BUILTIN_MODELS, findModel } from './modelCatalog';
+
+const MODES: readonly ConversationMode[] = ['default', 'yolo', 'plan', 'smart'];
+const TOOL_STATUSES = ['running', 'completed', 'error'] as const;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Parse an exported conversation. Accepts the versioned export document or a
+ * bare Conversation object. Throws an Error naming the first invalid field.
+ * Models missing from the given catalog are replaced by its first model.
+ */
+export function parseImportedConversation(text: string, models: readonly ModelInfo[] = BUILTIN_MODELS): Conversation {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const root = expectObject(data, 'file');
+  if ('schema' in root) {
+    if (root.schema !== EXPORT_SCHEMA) {
+      throw new Error(`unknown schema "${String(root.schema)}"`);
+    }
+    if (typeof root.version !== 'number' || root.version > EXPORT_SCHEMA_VERSION) {
+      throw new Error(`unsupported export version ${String(root.version)}; update the extension to import it`);
+    }
+    return validateConversation(root.conversation, 'conversation', models);
+  }
+  return validateConversation(root, 'conversation', models);
+}
+
+function validateConversation(value: unknown, path: string, models: readonly ModelInfo[]): Conversation {
+  const obj = expectObject(value, path);
+  const mode = expectString(obj.mode, `${path}.mode`);
+  if (!MODES.includes(mode as ConversationMode)) {
+    throw new Error(`${path}.mode must be one of ${MODES.join(', ')}`);
+  }
+  const model = expectString(obj.model, `${path}.model`);
+
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    title: expectString(obj.title, `${path}.title`),
+    messages: expectArray(obj.messages, `${path}.messages`).map((m, i) => validateMessage(m, `${path}.messages[${i}]`)),
+    // Never carry over yolo/auto-approve from someone else's transcript; approvals stay on
+    mode: 'default',
+    think: expectBoolean(obj.think, `${path}.think`),
+    // Models come and go between versions; fall back to the default rather than rejecting the transcript
+    model: findModel(models, model) ? model : models[0].id,
+    createdAt: expectNumber(obj.createdAt, `${path}.createdAt`),
+    updatedAt: expectNumber(obj.updatedAt, `${path}.updatedAt`),
+    sessionId: optionalString(obj.sessionId, `${path}.sessionId`),
+    workspaceFolderUri: optionalString(obj.workspaceFolderUri, `${path}.workspaceFolderUri`),
+    seedContext: optionalString(obj.seedContext, `${path}.seedContext`),
+  };
+}
+
+function validateMessage(value: unknown, path: string): Message {
+  const obj = expectObject(value, path);
+  if (obj.role !== 'user' && obj.role !== 'assistant') {
+    throw new Error(`${path}.role must be "user" or "assistant"`);
+  }
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    role: obj.role,
+    content: expectString(obj.content, `${path}.content`),
+    blocks: expectArray(obj.blocks, `${path}.blocks`).map((b, i) => validateBlock(b, `${path}.blocks[${i}]`)),
+    attachedFiles: expectArray(obj.attachedFiles ?? [], `${path}.attachedFiles`)
+      .map((f, i) => validateAttachedFile(f, `${path}.attachedFiles[${i}]`)),
+    timestamp: expectNumber(obj.timestamp, `${path}.timestamp`),
+  };
+}
+
+function validateAttachedFile(value: unknown, path: string): AttachedFile {
+  const obj = expectObject(value, path);
+  return {
+    path: expectString(obj.path, `${path}.path`),
+    content: optionalString(obj.content, `${path}.content`),
+    truncated: obj.truncated === undefined ? undefined : expectBoolean(obj.truncated, `${path}.truncated`),
+  };
+}
+
+function validateBlock(value: unknown, path: string): OutputBlock {
+  const obj = expectObject(value, path);
+  switch (obj.type) {
+    case 'text':
+      return { type: 'text', content: expectString(obj.content, `${path}.content`) };
+    case 'code':
+      return {
+        type: 'code',
+        language: expectString(obj.language, `${path}.language`),
+        filename: optionalString(obj.filename, `${path}.filename`),
+        content: expectString(obj.content, `${path}.content`),
+      };
+    case 'tool': {
+      const status = expectString(obj.status, `${path}.status`);
+      if (!(TOOL_STATUSES as readonly string[]).includes(status)) {
+        throw new Error(`${path}.status must be one of ${TOOL_STATUSES.join(', ')}`);
+      }
+      return {
+        type: 'tool',
+        name: expectString(obj.name, `${path}.name`),
+        input: expectObject(obj.input, `${path}.input`),
+        output: expectString(obj.output, `${path}.output`),
+        // A run that was still going when exported can never finish here
+        status: status === 'running' ? 'error' : status as 'completed' | 'error',
+        label: optionalString(obj.label, `${path}.label`),
+      };
+    }
+    case 'thinking':
+      return {
+        type: 'thinking',
+        content: expectString(obj.content, `${path}.content`),
+        collapsed: obj.collapsed === undefined ? true : expectBoolean(obj.collapsed, `${path}.collapsed`),
+      };
+    case 'file_ref':
+      return {
+        type: 'file_ref',
+        path: expectString(obj.path, `${path}.path`),
+        lineStart: obj.lineStart === undefined ? undefined : expectNumber(obj.lineStart, `${path}.lineStart`),
+        lineEnd: obj.lineEnd === undefined ? undefined : expectNumber(obj.lineEnd, `${path}.lineEnd`),
+      };
+    case 'plan':
+      return {
+        type: 'plan',
+        entries: expectArray(obj.entries, `${path}.entries`).map((e, i) => {
+          const entry = expectObject(e, `${path}.entries[${i}]`);
+          return {
+            content: expectString(entry.content, `${path}.entries[${i}].content`),
+            status: expectString(entry.status, `${path}.entries[${i}].status`),
+            priority: expectString(entry.priority, `${path}.entries[${i}].priority`),
+          };
+        }),
+      };
+    case 'error':
+      return { type: 'error', message: expectString(obj.message, `${path}.message`) };
+    case 'warning':
+      return { type: 'warning', message: expectString(obj.message, `${path}.message`) };
+    default:
+      throw new Error(`${path}.type "${String(obj.type)}" is not a known block type`);
+  }
+}
+
+// ── Field helpers ───────────────────────────────────────────────────
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  return value as JsonObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${path} must be a string`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${path} must be a number`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${path} must be a boolean`);
+  }
+  return value;
+}
@@ -0,0 +1,151 @@
+// Persistence backends for ConversationStore, migration of legacy global
+// history into per-workspace storage, and retention rules.
+
+import type * as vscode from 'vscode';
+import { Conversation } from './protocol';
+
+export const STORAGE_KEY = 'iflow.conversations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Snapshot of the store as it is persisted. */
+export interface StoredConversations {
+  conversations: Conversation[];
+  currentId: string | null;
+  cliAvailable?: boolean;
+  cliVersion?: string | null;
+}
+
+export interface ConversationStorage {
+  load(): StoredConversations | undefined;
+  save(data: StoredConversations): void;
+}
+
+/** Stores conversations under a single key of a VS Code Memento. */
+export class MementoConversationStorage implements ConversationStorage {
+  constructor(private readonly memento: vscode.Memento) {}
+
+  load(): StoredConversations | undefined {
+    return this.memento.get<StoredConversations>(STORAGE_KEY);
+  }
+
+  save(data: StoredConversations): void {
+    this.memento.update(STORAGE_KEY, data);
+  }
+}
+
+export interface RetentionPolicy {
+  /** Keep at most this many conversations (0 = unlimited). */
+  maxConversations: number;
+  /** Drop conversations not updated for this many days (0 = keep forever). */
+  retentionDays: number;
+}
+
+/**
+ * Apply a retention policy. Conversations in keepIds (the current one, or one
+ * that is streaming) are never dropped. Order of the input is preserved.
+ */
+export function applyRetention(
+  conversations: Conversation[],
+  policy: RetentionPolicy,
+  now: number,
+  keepIds: Set<string> = new Set()
+): Conversation[] {
+  let kept = conversations;
+  if (policy.retentionDays > 0) {
+    const cutoff = now - policy.retentionDays * DAY_MS;
+    kept = kept.filter(c => keepIds.has(c.id) || c.updatedAt >= cutoff);
+  }
+
+  if (policy.maxConversations > 0 && kept.length > policy.maxConversations) {
+    const newestFirst = [...kept].sort((a, b) => b.updatedAt - a.updatedAt);
+    const allowed = new Set(newestFirst.filter(c => keepIds.has(c.id)).map(c => c.id));
+    for (const c of newestFirst) {
+      if (allowed.size >= policy.maxConversations) {
+        break;
+      }
+      allowed.add(c.id);
+    }
+    kept = kept.filter(c => allowed.has(c.id));
+  }
+  return kept;
+}
+
+/**
+ * Remove the conversations that belong to one of the given workspace folders
+ * from the global memento and return them. Conversations of other
+ * workspaces, and those without a folder, stay in global storage.
+ */
+export function takeGlobalConversations(globalState: vscode.Memento, folderPaths: string[]): Conversation[] {
+  const legacy = globalState.get<StoredConversations>(STORAGE_KEY);
+  if (!legacy || legacy.conversations.length === 0 || folderPaths.length === 0) {
+    return [];
+  }
+
+  const folders = new Set(folderPaths);
+  const moving = legacy.conversations.filter(c => c.workspaceFolderUri && folders.has(c.workspaceFolderUri));
+  if (moving.length === 0) {
+    return [];
+  }
+
+  const movedIds = new Set(moving.map(c => c.id));
+  globalState.update(STORAGE_KEY, {
+    ...legacy,
+    conversations: legacy.conversations.filter(c => !movedIds.has(c.id)),
+    currentId: legacy.currentId && movedIds.has(legacy.currentId) ? null : legacy.currentId,
+  });
+  return moving;
+}
+
+/**
+ * Move conversations that belong to one of the given workspace folders from
+ * the global memento into the workspace memento.
+ * Returns the number of migrated conversations.
+ */
+export function migrateGlobalConversations(
+  globalState: vscode.Memento,
+  workspaceState: vscode.Memento,
+  folderPaths: string[]
+): number {
+  const legacy = globalState.get<StoredConversations>(STORAGE_KEY);
+  const moving = takeGlobalConversations(globalState, folderPaths);
+  if (!legacy || moving.length === 0) {
+    return 0;
+  }
+
+  const existing = workspaceState.get<StoredConversations>(STORAGE_KEY);
+  const existingIds = new Set(existing?.conversations.map(c => c.id) ?? []);
+  const merged = [
+    ...(existing?.conversations ?? []),
+    ...moving.filter(c => !existingIds.has(c.id)),
+  ].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const movedIds = new Set(moving.map(c => c.id));
+  const currentId = existing?.currentId
+    ?? (legacy.currentId && movedIds.has(legacy.currentId) ? legacy.currentId : null);
+
+  workspaceState.update(STORAGE_KEY, {
+    ...legacy,
+    ...existing,
+    conversations: merged,
+    currentId,
+  });
+  return moving.length;
+}
+
+/**
+ * Choose the storage for this window: workspace-scoped when a folder is open
+ * (migrating that folder's legacy history first), global otherwise so history
+ * without a workspace folder stays reachable from an empty window.
+ */
+export function openConversationStorage(
+  globalState: vscode.Memento,
+  workspaceState: vscode.Memento,
+  folderPaths: string[]
+): ConversationStorage {
+  if (folderPaths.length === 0) {
+    return new MementoConversationStorage(globalState);
+  }
+  migrateGlobalConversations(globalState, workspaceState, folderPaths);
+  return new MementoConversationStorage(workspaceState);
+}
@@ -0,0 +1,167 @@
+// Credentials kept in VS Code SecretStorage: the iFlow API key, the OAuth
+// login and the API keys of provider profiles. Nothing secret is written to
+// settings or ~/.iflow; the CLI receives keys in the environment of the
+// process the extension launches (see launchEnv).
+
+import * as vscode from 'vscode';
+import { ProviderCredentials, providerSecretKey } from './providerProfiles';
+
+const API_KEY_SECRET = 'iflow.apiKey';
+/** SecretStorage key of the OAuth login, as passed to CredentialStore.onDidChange listeners. */
+export const OAUTH_SECRET = 'iflow.oauthCredentials';
+
+/** OAuth login as returned by iflow.cn (the format of the CLI's oauth_creds.json). */
+export interface OAuthCredentials {
+  readonly access_token: string;
+  readonly refresh_token: string;
+  readonly expiry_date: number;
+  readonly token_type: string;
+  readonly scope: string;
+  readonly apiKey: string;
+  readonly userId: string;
+  readonly userName: string;
+  readonly avatar: string;
+  readonly email: string;
+  readonly phone: string;
+}
+
+/** CLI settings a launch overrides; only apiKey is secret. */
+export interface LaunchCredentials {
+  apiKey?: string;
+  baseUrl?: string;
+  selectedAuthType?: string;
+}
+
+/**
+ * Environment for a CLI launch. The iFlow CLI reads any setting from an
+ * IFLOW_<settingName> variable, taking precedence over ~/.iflow/settings.json.
+ */
+export function launchEnv(credentials: LaunchCredentials): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(credentials)) {
+    if (typeof value === 'string' && value) {
+      env[`IFLOW_${key}`] = value;
+    }
+  }
+  return env;
+}
+
+/** Parse stored OAuth credentials; null when a required field is missing. */
+export function parseOAuthCredentials(text: string | undefined): OAuthCredentials | null {
+  if (!text) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed?.access_token || !parsed.refresh_token || !parsed.apiKey) {
+      return null;
+    }
+    return parsed as OAuthCredentials;
+  } catch {
+    return null;
+  }
+}
+
+export class CredentialStore {
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  /** Fires with the SecretStorage key of every credential that is stored or deleted. */
+  onDidChange(listener: (key: string) => void): vscode.Disposable {
+    return this.secrets.onDidChange((e) => {
+      if (e.key.startsWith('iflow.')) {
+        listener(e.key);
+      }
+    });
+  }
+
+  // ── API key ─────────────────────────────────────────────────────────
+
+  async getApiKey(): Promise<string | undefined> {
+    return this.secrets.get(API_KEY_SECRET);
+  }
+
+  async setApiKey(apiKey: string): Promise<void> {
+    await this.secrets.store(API_KEY_SECRET, apiKey);
+  }
+
+  async clearApiKey(): Promise<void> {
+    await this.secrets.delete(API_KEY_SECRET);
+  }
+
+  // ── OAuth login ─────────────────────────────────────────────────────
+
+  async getOAuthCredentials(): Promise<OAuthCredentials | null> {
+    return parseOAuthCredentials(await this.secrets.get(OAUTH_SECRET));
+  }
+
+  async setOAuthCredentials(credentials: OAuthCredentials): Promise<void> {
+    await this.secrets.store(OAUTH_SECRET, JSON.stringify(credentials));
+  }
+
+  async clearOAuthCredentials(): Promise<void> {
+    await this.secrets.delete(OAUTH_SECRET);
+  }
+
+  // ── Provider profiles ───────────────────────────────────────────────
+
+  async getProviderApiKey(providerId: string): Promise<string | undefined> {
+    return this.secrets.get(providerSecretKey(providerId));
+  }
+
+  async setProviderApiKey(providerId: string, apiKey: string): Promise<void> {
+    await this.secrets.store(providerSecretKey(providerId), apiKey);
+  }
+
+  async clearProviderApiKey(providerId: string): Promise<void> {
+    await this.secrets.delete(providerSecretKey(providerId));
+  }
+
+  // ── Launch ──────────────────────────────────────────────────────────
+
+  /**
+   * What to inject into a CLI launch: the provider profile when the run uses
+   * one, otherwise the OAuth login's key, otherwise the stored API key.
+   * Empty when nothing is stored (the CLI then uses its own configuration).
+   */
+  async getLaunchCredentials(provider?: ProviderCredentials): Promise<LaunchCredentials> {
+    if (provider) {
+      return { selectedAuthType: 'openai-compatible', baseUrl: provider.baseUrl, apiKey: provider.apiKey };
+    }
+    const oauth = await this.getOAuthCredentials();
+    if (oauth) {
+      return { apiKey: oauth.apiKey };
+    }
+    const apiKey = await this.getApiKey();
+    return apiKey ? { apiKey } : {};
+  }
+
+  // ── Migration ───────────────────────────────────────────────────────
+
+  /**
+   * Move a plaintext iflow.apiKey setting (user or workspace) into
+   * SecretStorage and remove it from settings. Returns the migrated key.
+   */
+  async migrateApiKeySetting(): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('iflow');
+    const inspected = config.inspect<string | null>('apiKey');
+    const targets: Array<[vscode.ConfigurationTarget, string | null | undefined]> = [
+      [vscode.ConfigurationTarget.Workspace, inspected?.workspaceValue],
+      [vscode.ConfigurationTarget.Global, inspected?.globalValue],
+    ];
+    let migrated: string | undefined;
+    for (const [target, value] of targets) {
+      if (value === undefined) {
+        continue;
+      }
+      // The workspace value is the one that was in effect
+      if (!migrated && typeof value === 'string' && value.trim()) {
+        migrated = value.trim();
+      }
+      await config.update('apiKey', undefined, target);
+    }
+    if (migrated && !(await this.getApiKey())) {
+      await this.setApiKey(migrated);
+    }
+    return migrated;
+  }
+}
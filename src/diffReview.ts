@@ -0,0 +1,195 @@
+// Pure line-diff logic for reviewing agent file edits hunk by hunk.
+
+import { EditHunk } from './protocol';
+
+/**
+ * Above this many cells (old lines × new lines) in the changed middle region
+ * the LCS table gets too large; the whole region becomes a single hunk instead.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Whether a tool name refers to a tool that writes or edits files. */
+export function isFileEditTool(name: string): boolean {
+  const lower = (name || '').toLowerCase();
+  if (/read|search|grep|glob|list/.test(lower)) {
+    return false;
+  }
+  return /write|edit|replace|apply.?patch|create.?file/.test(lower);
+}
+
+export function splitLines(content: string): string[] {
+  return content === '' ? [] : content.split('\n');
+}
+
+/**
+ * Compute the changed hunks between two versions of a file.
+ * Common prefix/suffix are trimmed first so typical local edits stay cheap.
+ */
+export function computeHunks(before: string, after: string): EditHunk[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length === 0 && midB.length === 0) {
+    return [];
+  }
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [makeHunk(prefix, midA, prefix, midB)];
+  }
+
+  // LCS table over the middle region (lengths of common subsequence of suffixes)
+  const n = midA.length;
+  const m = midB.length;
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    table.push(new Uint32Array(m + 1));
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = midA[i] === midB[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const hunks: EditHunk[] = [];
+  let i = 0;
+  let j = 0;
+  let pending: { oldStart: number; newStart: number; oldLines: string[]; newLines: string[] } | null = null;
+
+  const flush = () => {
+    if (pending) {
+      hunks.push(makeHunk(pending.oldStart, pending.oldLines, pending.newStart, pending.newLines));
+      pending = null;
+    }
+  };
+
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      flush();
+      i++;
+      j++;
+      continue;
+    }
+    if (!pending) {
+      pending = { oldStart: prefix + i, newStart: prefix + j, oldLines: [], newLines: [] };
+    }
+    if (j < m && (i >= n || table[i][j + 1] >= table[i + 1][j])) {
+      pending.newLines.push(midB[j]);
+      j++;
+    } else {
+      pending.oldLines.push(midA[i]);
+      i++;
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+function makeHunk(oldIndex: number, oldLines: string[], newIndex: number, newLines: string[]): EditHunk {
+  return {
+    oldStart: oldIndex + 1,
+    oldLines,
+    newStart: newIndex + 1,
+    newLines,
+    decision: 'pending',
+  };
+}
+
+/**
+ * Find the 0-based line index where a hunk's new lines currently live.
+ * Earlier reverted hunks shift the position; if the expected position no longer
+ * matches (the file changed since the edit), fall back to searching the file.
+ * Returns -1 when the hunk cannot be located.
+ */
+export function locateHunk(lines: string[], hunks: EditHunk[], index: number): number {
+  const hunk = hunks[index];
+  let expected = hunk.newStart - 1;
+  for (let k = 0; k < index; k++) {
+    if (hunks[k].decision === 'reverted') {
+      expected += hunks[k].oldLines.length - hunks[k].newLines.length;
+    }
+  }
+
+  if (matchesAt(lines, hunk.newLines, expected)) {
+    return expected;
+  }
+  if (hunk.newLines.length === 0) {
+    return expected >= 0 && expected <= lines.length ? expected : -1;
+  }
+
+  // Search outward from the expected position for the nearest match
+  for (let offset = 1; offset < lines.length; offset++) {
+    if (matchesAt(lines, hunk.newLines, expected - offset)) {
+      return expected - offset;
+    }
+    if (matchesAt(lines, hunk.newLines, expected + offset)) {
+      return expected + offset;
+    }
+  }
+  return -1;
+}
+
+function matchesAt(lines: string[], needle: string[], start: number): boolean {
+  if (start < 0 || start + needle.length > lines.length) {
+    return false;
+  }
+  for (let k = 0; k < needle.length; k++) {
+    if (lines[start + k] !== needle[k]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Revert a single hunk in the current file content.
+ * Throws if the hunk's lines can no longer be found in the file.
+ */
+export function revertHunk(content: string, hunks: EditHunk[], index: number): string {
+  const lines = splitLines(content);
+  const start = locateHunk(lines, hunks, index);
+  if (start === -1) {
+    throw new Error('The edited lines no longer match the file on disk');
+  }
+  const hunk = hunks[index];
+  lines.splice(start, hunk.newLines.length, ...hunk.oldLines);
+  return lines.join('\n');
+}
+
+/**
+ * Rebuild the file as it was before the edit, by reverting every hunk that is
+ * still applied (pending or accepted) on top of the current content.
+ * Hunks that cannot be located are left as-is.
+ */
+export function reconstructOriginal(content: string, hunks: EditHunk[]): string {
+  let result = content;
+  // Revert from last to first so earlier positions stay valid
+  for (let k = hunks.length - 1; k >= 0; k--) {
+    if (hunks[k].decision === 'reverted') {
+      continue;
+    }
+    try {
+      result = revertHunk(result, hunks, k);
+    } catch {
+      // File drifted — keep the remaining content unchanged for this hunk
+    }
+  }
+  return result;
+}
@@ -0,0 +1,208 @@
+// VS Code integration for reviewing agent file edits: captures the file content
+// before write/edit tools run, opens real diff editors, and reverts hunks.
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EditHunk, EditReview } from './protocol';
+import { computeHunks, isFileEditTool, reconstructOriginal, revertHunk } from './diffReview';
+
+const ORIGINAL_SCHEME = 'iflow-original';
+
+/**
+ * Serves the "before" side of edit diffs as virtual read-only documents.
+ * Content is registered right before a diff editor is opened.
+ */
+class OriginalContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  set(uri: vscode.Uri, content: string): void {
+    const key = uri.toString();
+    const changed = this.contents.has(key) && this.contents.get(key) !== content;
+    this.contents.set(key, content);
+    if (changed) {
+      this.changeEmitter.fire(uri);
+    }
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+}
+
+const originalContentProvider = new OriginalContentProvider();
+
+/** Register the virtual document provider for the "before" side of edit diffs. */
+export function registerEditReviewProvider(): vscode.Disposable {
+  return vscode.workspace.registerTextDocumentContentProvider(ORIGINAL_SCHEME, originalContentProvider);
+}
+
+async function readFileOrEmpty(filePath: string): Promise<string> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+interface TrackedTool {
+  name: string;
+  filePath: string | null;
+  before: string | null;
+}
+
+/**
+ * Tracks the running write/edit tools of a single run and produces the review
+ * (hunks between the pre-edit snapshot and the file on disk) when one
+ * completes. Tools are keyed by tool call id, so parallel and subagent edits
+ * keep their own snapshots; the tool name stands in when the CLI sends no id.
+ */
+export class EditReviewTracker {
+  private readonly tools = new Map<string, TrackedTool>();
+  private cwd: string | undefined;
+
+  /** Reset state at the start of each run; relative paths resolve against cwd. */
+  reset(cwd?: string): void {
+    this.tools.clear();
+    this.cwd = cwd;
+  }
+
+  /**
+   * Observe a tool_start chunk. The SDK sends several updates for the same
+   * tool (pending → in_progress → completed); the snapshot is taken the first
+   * time a file path is known, which is before the CLI writes the file.
+   */
+  beginTool(name: string, input: Record<string, unknown>, toolCallId?: string): void {
+    const key = toolCallId ?? name;
+    let tool = this.tools.get(key);
+    if (!tool || tool.name !== name) {
+      tool = { name, filePath: null, before: null };
+      this.tools.set(key, tool);
+    }
+    if (!isFileEditTool(name) || tool.filePath) {
+      return;
+    }
+    const filePath = this.resolvePath(input.file_path);
+    if (!filePath) {
+      return;
+    }
+    tool.filePath = filePath;
+    try {
+      // Synchronous read: the chunk callback must not yield before the CLI writes
+      tool.before = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+    } catch {
+      tool.before = null;
+    }
+  }
+
+  /** Observe a tool_end chunk; returns the review for completed file edits. */
+  async finishTool(
+    status: 'completed' | 'error',
+    name: string,
+    input: Record<string, unknown>,
+    toolCallId?: string
+  ): Promise<EditReview | null> {
+    const key = toolCallId ?? name;
+    const tool = this.tools.get(key);
+    this.tools.delete(key);
+    if (!tool || status !== 'completed' || !isFileEditTool(tool.name)) {
+      return null;
+    }
+
+    const filePath = tool.filePath ?? this.resolvePath(input.file_path);
+    if (!filePath) {
+      return null;
+    }
+
+    const after = await readFileOrEmpty(filePath);
+    let before = tool.before;
+
+    // Snapshot missed or taken too late: derive it from the edit's old/new strings
+    if (before === null || before === after) {
+      const oldString = typeof input.old_string === 'string' ? input.old_string : null;
+      const newString = typeof input.new_string === 'string' ? input.new_string
+        : typeof input.content === 'string' ? input.content : null;
+      if (oldString !== null && newString && after.includes(newString)) {
+        // Function replacer: "$&" and the like in oldString are literal text
+        before = after.replace(newString, () => oldString);
+      }
+    }
+
+    if (before === null) {
+      return null;
+    }
+
+    const hunks = computeHunks(before, after);
+    return hunks.length > 0 ? { filePath, hunks } : null;
+  }
+
+  private resolvePath(value: unknown): string | null {
+    if (typeof value !== 'string' || !value) {
+      return null;
+    }
+    return this.cwd ? path.resolve(this.cwd, value) : value;
+  }
+}
+
+/** Open a VS Code diff editor comparing the pre-edit content with the file on disk. */
+export async function openEditDiff(review: EditReview, reviewId: string): Promise<void> {
+  const fileUri = vscode.Uri.file(review.filePath);
+  const current = await readFileOrEmpty(review.filePath);
+  const originalUri = vscode.Uri.from({
+    scheme: ORIGINAL_SCHEME,
+    path: fileUri.path,
+    query: reviewId,
+  });
+  originalContentProvider.set(originalUri, reconstructOriginal(current, review.hunks));
+
+  const title = `${path.basename(review.filePath)} (IFlow edit)`;
+  await vscode.commands.executeCommand('vscode.diff', originalUri, fileUri, title);
+}
+
+/**
+ * Record a decision for one hunk. Reverting rewrites the hunk in the file
+ * (through a WorkspaceEdit so open editors stay in sync) and saves it.
+ * Returns the updated hunk list.
+ */
+export async function applyHunkDecision(
+  review: EditReview,
+  hunkIndex: number,
+  decision: 'accepted' | 'reverted',
+  reviewId: string
+): Promise<EditHunk[]> {
+  const hunk = review.hunks[hunkIndex];
+  if (!hunk || hunk.decision === 'reverted') {
+    return review.hunks;
+  }
+
+  if (decision === 'reverted') {
+    const fileUri = vscode.Uri.file(review.filePath);
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const reverted = revertHunk(document.getText(), review.hunks, hunkIndex);
+
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length)
+    );
+    edit.replace(fileUri, fullRange, reverted);
+    if (!await vscode.workspace.applyEdit(edit)) {
+      throw new Error(`Failed to revert changes in ${path.basename(review.filePath)}`);
+    }
+    await document.save();
+  }
+
+  const hunks = review.hunks.map((h, i) => i === hunkIndex ? { ...h, decision } : h);
+
+  // Keep an open diff editor's "before" side consistent with the new state
+  const originalUri = vscode.Uri.from({
+    scheme: ORIGINAL_SCHEME,
+    path: vscode.Uri.file(review.filePath).path,
+    query: reviewId,
+  });
+  originalContentProvider.set(originalUri, reconstructOriginal(await readFileOrEmpty(review.filePath), hunks));
+
+  return hunks;
+}
@@ -1,13 +1,57 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { IFlowPanel } from './panel';
 import { IFlowSidebarProvider } from './sidebarProvider';
+import { registerEditReviewProvider } from './editReview';
+import { IFlowSession } from './session';
+import { UsageTreeProvider } from './usageView';
+import { openConversationStorage, takeGlobalConversations } from './conversationStorage';
+import { CredentialStore } from './credentials';
+import { managePermissionRules } from './permissionSettings';
+import { AuditLog, AUDIT_LOG_FILE } from './auditLog';
+import { BUILTIN_SECRET_PATTERNS, parseRedactionPatterns } from './secretRedaction';
+import { CheckpointBlobStore, CHECKPOINT_DIR } from './checkpoints';
+
+let session: IFlowSession | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('IFlow for VSCode is now active');
 
+	// Conversations are stored per workspace; legacy global history is migrated on first open
+	const folderPaths = (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
+	const storage = openConversationStorage(context.globalState, context.workspaceState, folderPaths);
+
+	// Audit log of tool calls and approvals, and checkpoint content, kept per workspace
+	const storageDir = (context.storageUri ?? context.globalStorageUri).fsPath;
+	const auditLog = new AuditLog(
+		path.join(storageDir, AUDIT_LOG_FILE),
+		(message) => vscode.window.showWarningMessage(`iFlow: ${message}`),
+		() => [
+			...BUILTIN_SECRET_PATTERNS,
+			...parseRedactionPatterns(vscode.workspace.getConfiguration('iflow').get<unknown>('redactionPatterns')).patterns,
+		]
+	);
+
+	// One session shared by the panel and both sidebars
+	session = new IFlowSession(
+		context.extensionUri,
+		storage,
+		new CredentialStore(context.secrets),
+		auditLog,
+		new CheckpointBlobStore(path.join(storageDir, CHECKPOINT_DIR))
+	);
+	const activeSession = session;
+
+	// Folders added to a multi-root workspace later bring their legacy global history along
+	if (folderPaths.length > 0) {
+		context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+			activeSession.adoptConversations(takeGlobalConversations(context.globalState, e.added.map(f => f.uri.fsPath)));
+		}));
+	}
+
 	// Register the independent panel command
 	const disposable = vscode.commands.registerCommand('iflow-for-vscode.openPanel', () => {
-		IFlowPanel.createOrShow(context.extensionUri, context.globalState);
+		IFlowPanel.createOrShow(context.extensionUri, activeSession);
 	});
 	context.subscriptions.push(disposable);
 
@@ -17,9 +61,54 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 	context.subscriptions.push(lockDisposable);
 
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.exportConversation', () => {
+		return activeSession.exportConversation();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.importConversation', () => {
+		return activeSession.importConversation();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.setProviderApiKey', () => {
+		return activeSession.setProviderApiKey();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow.login', () => {
+		return activeSession.login();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow.logout', () => {
+		return activeSession.logout();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.setApiKey', () => {
+		return activeSession.setApiKey();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.clearCredentials', () => {
+		return activeSession.clearCredentials();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.managePermissionRules', () => {
+		return managePermissionRules();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('iflow-for-vscode.openAuditLog', () => {
+		return activeSession.openAuditLog();
+	}));
+
+	// Usage dashboard, refreshed from session state updates
+	const usageView = new UsageTreeProvider(activeSession);
+	context.subscriptions.push(
+		usageView,
+		activeSession.attach(usageView),
+		vscode.window.registerTreeDataProvider(UsageTreeProvider.viewType, usageView),
+		vscode.commands.registerCommand('iflow-for-vscode.refreshUsage', () => usageView.refresh()),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration('iflow.modelPricing')) {
+				usageView.refresh();
+			}
+		})
+	);
+
+	// Virtual documents for the "before" side of agent edit diffs
+	context.subscriptions.push(registerEditReviewProvider());
+
 	// Register both primary and secondary sidebar webview providers
 	const registerSidebarView = (viewType: string) => {
-		const sidebarProvider = new IFlowSidebarProvider(context.extensionUri, context.globalState);
+		const sidebarProvider = new IFlowSidebarProvider(context.extensionUri, activeSession);
 		const sidebarDisposable = vscode.window.registerWebviewViewProvider(
 			viewType,
 			sidebarProvider,
@@ -32,4 +121,7 @@ export function activate(context: vscode.ExtensionContext) {
 	registerSidebarView(IFlowSidebarProvider.secondaryViewType);
 }
 
-export function deactivate() {}
+export async function deactivate(): Promise<void> {
+	await session?.dispose();
+	session = undefined;
+}
@@ -2,8 +2,15 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { StreamChunk, ConversationMode, ModelType, AttachedFile, IDEContext } from './protocol';
+import { StreamChunk, ConversationMode, ModelType, ModelInfo, AttachedFile, IDEContext } from './protocol';
 import { ChunkMapper } from './chunkMapper';
+import { UsageTracker, parseUsage, findUsageInFrame } from './tokenUsage';
+import { findModelsInFrame } from './modelCatalog';
+import { LaunchCredentials, launchEnv } from './credentials';
+import { PermissionRequest, describePermissionRequest, evaluatePermission, formatRule, ruleFromApproval } from './permissionRules';
+import { readPermissionRules } from './permissionSettings';
+import { AuditEvent } from './auditLog';
+import { BUILTIN_SECRET_PATTERNS, SecretPattern, formatRedactionWarning, parseRedactionPatterns } from './secretRedaction';
 import { ProcessManager, ManualStartInfo } from './processManager';
 
 /**
@@ -65,6 +72,16 @@ async function getSDK(): Promise<SDKModule> {
   return sdkModule;
 }
 
+// One Output channel shared by every client instance
+let sharedOutputChannel: vscode.OutputChannel | null = null;
+
+/**
+ * Connects that put credentials in process.env run one at a time across all
+ * clients; overlapping ones would save each other's keys as the values to
+ * restore and leave them in the extension host's environment.
+ */
+let envConnectLock: Promise<void> = Promise.resolve();
+
 /** @internal Test-only helper to inject a mock SDK module. */
 export function __setSDKModuleForTests(mod: SDKModule | null): void {
   sdkModule = mod;
@@ -81,22 +98,54 @@ interface RunOptions {
   ideContext?: IDEContext;
   cwd?: string;
   fileAllowedDirs?: string[];
+  /** Transcript of earlier turns; the run starts a fresh CLI session and replays it. */
+  history?: string;
+  /** Transcript replayed instead when sessionId cannot be loaded (e.g. an imported conversation). */
+  fallbackHistory?: string;
+  /** Injected into the CLI's environment when it is launched (see CredentialStore.getLaunchCredentials). */
+  credentials?: LaunchCredentials;
+  /** Receives the run's tool calls and approval decisions, for the audit log. */
+  onAudit?: (event: AuditEvent) => void;
+}
+
+/** An option offered with an ACP permission request. */
+interface PermissionOption {
+  optionId?: string;
+  kind?: string;
+}
+
+/** optionId of the first permission option of the given kind (allow_once, reject_once, ...). */
+function pickOption(options: PermissionOption[], kind: string): string | undefined {
+  return options.find(o => o?.kind === kind)?.optionId;
+}
+
+/**
+ * Decline one tool call. Selecting the CLI's reject option lets the agent
+ * carry on with the turn; without one the request is cancelled.
+ */
+function rejectResponse(options: PermissionOption[]) {
+  const optionId = pickOption(options, 'reject_once');
+  return optionId ? { outcome: { outcome: 'selected', optionId } } : { outcome: { outcome: 'cancelled' } };
 }
 
 export class IFlowClient {
   private client: SDKClientType | null = null;
-  private outputChannel: vscode.OutputChannel | null = null;
   private isConnected = false;
   private isCancelled = false;
   /** The conversation mode for which the current connection was established. */
   private connectedMode: ConversationMode | null = null;
   /** The cwd for which the current connection was established. */
   private connectedCwd: string | null = null;
+  /** Serialized launch environment of the running CLI; a run with other credentials relaunches it. */
+  private launchedWith: string | null = null;
   /** The session ID currently loaded on the persistent connection. */
   private loadedSessionId: string | null = null;
   /** Cached manualStart info to avoid re-resolving on every run. */
   private cachedManualStart: ManualStartInfo | null | undefined = undefined;
-  private chunkMapper = new ChunkMapper(getSDK, (msg) => this.log(msg));
+  /** Audit sink of the current run; approvals arrive while it runs. */
+  private audit: ((event: AuditEvent) => void) | null = null;
+  private chunkMapper = new ChunkMapper(getSDK, (msg) => this.log(msg), (event) => this.audit?.(event));
+  private readonly usageTracker = new UsageTracker();
   private processManager = new ProcessManager(
     (msg) => this.log(msg),
     (msg) => this.logInfo(msg)
@@ -104,6 +153,17 @@ export class IFlowClient {
   // Pending permission requests: requestId -> resolve callback
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private pendingPermissions = new Map<number, (response: any) => void>();
+  /** What each pending permission request asks for and the options the CLI offered. */
+  private permissionRequests = new Map<number, { request: PermissionRequest; args: Record<string, unknown>; options: PermissionOption[] }>();
+
+  /**
+   * @param portOffset Added to the configured port so that several clients
+   *   (one per concurrently running conversation) each get their own CLI process.
+   */
+  constructor(
+    private readonly portOffset = 0,
+    private readonly onModelsReported?: (models: ModelInfo[]) => void
+  ) {}
 
   private log(message: string): void {
     const debugLogging = vscode.workspace.getConfiguration('iflow').get<boolean>('debugLogging', false);
@@ -114,11 +174,11 @@ export class IFlowClient {
 
   /** Always log to Output channel (not gated by debugLogging). */
   private logInfo(message: string): void {
-    if (!this.outputChannel) {
-      this.outputChannel = vscode.window.createOutputChannel('IFlow');
+    if (!sharedOutputChannel) {
+      sharedOutputChannel = vscode.window.createOutputChannel('IFlow');
     }
     const timestamp = new Date().toISOString();
-    this.outputChannel.appendLine(`[${timestamp}] ${message}`);
+    sharedOutputChannel.appendLine(`[${timestamp}] ${message}`);
     console.log('[IFlow]', message);
   }
 
@@ -127,7 +187,7 @@ export class IFlowClient {
     return {
       nodePath: config.get<string | null>('nodePath', null),
       baseUrl: config.get<string | null>('baseUrl', null),
-      port: config.get<number>('port', 8090),
+      port: config.get<number>('port', 8090) + this.portOffset,
       timeout: config.get<number>('timeout', 60000),
       debugLogging: config.get<boolean>('debugLogging', false),
     };
@@ -223,16 +283,7 @@ export class IFlowClient {
       this.log(`Updated ~/.iflow/settings.json baseUrl to: ${config.baseUrl}`);
     }
 
-    // Only override apiKey from VS Code config if not using OAuth authentication.
-    // When OAuth is active, the apiKey in settings.json is managed by AuthService.
-    if (settings.selectedAuthType !== 'oauth-iflow') {
-      const apiKey = vscode.workspace.getConfiguration('iflow').get<string | null>('apiKey', null);
-      if (apiKey && settings.apiKey !== apiKey) {
-        settings.apiKey = apiKey;
-        updated = true;
-        this.log(`Updated ~/.iflow/settings.json apiKey`);
-      }
-    }
+    // API keys are never written here; they reach the CLI through its launch environment
 
     if (updated) {
       if (this.writeSettings(settings, settingsPath)) {
@@ -281,17 +332,23 @@ export class IFlowClient {
   private async ensureConnected(
     mode: ConversationMode,
     cwd?: string,
-    fileAllowedDirs?: string[]
+    fileAllowedDirs?: string[],
+    credentials: LaunchCredentials = {}
   ): Promise<void> {
-    // Already connected with matching mode and cwd → reuse
-    if (this.isConnected && this.client && this.connectedMode === mode && this.connectedCwd === (cwd ?? null)) {
+    const env = launchEnv(credentials);
+    const launchKey = JSON.stringify(env);
+
+    // Already connected with matching mode, cwd and credentials → reuse
+    if (this.isConnected && this.client && this.connectedMode === mode && this.connectedCwd === (cwd ?? null)
+        && this.launchedWith === launchKey) {
       this.log(`Reusing existing connection (mode=${mode}, cwd=${cwd})`);
       return;
     }
 
-    // Mode or cwd changed, or not connected → tear down stale connection first
+    // Mode, cwd or credentials changed, or not connected → tear down stale connection first
     if (this.isConnected && this.client) {
-      this.log(`Connection params changed (mode: ${this.connectedMode} → ${mode}, cwd: ${this.connectedCwd} → ${cwd}), reconnecting`);
+      const credentialsChanged = this.launchedWith !== launchKey;
+      this.log(`Connection params changed (mode: ${this.connectedMode} → ${mode}, cwd: ${this.connectedCwd} → ${cwd}, credentials changed: ${credentialsChanged}), reconnecting`);
       await this.disconnect();
     }
 
@@ -302,14 +359,22 @@ export class IFlowClient {
       this.cachedManualStart = await this.processManager.resolveStartMode(config);
     }
 
+    // The CLI only reads credentials at startup, so a process launched with others is replaced
+    if (this.cachedManualStart && this.processManager.hasProcess && this.launchedWith !== launchKey) {
+      this.log('CLI credentials changed, restarting the managed process');
+      await this.processManager.stopManagedProcess();
+    }
+
     // Start the managed process if needed
     if (this.cachedManualStart && !this.processManager.hasProcess) {
       await this.processManager.startManagedProcess(
         this.cachedManualStart.nodePath,
         this.cachedManualStart.port,
         this.cachedManualStart.iflowScript,
-        cwd
+        cwd,
+        env
       );
+      this.launchedWith = launchKey;
     }
 
     // Build session settings for this mode
@@ -327,7 +392,8 @@ export class IFlowClient {
 
     const sdk = await getSDK();
     this.client = new sdk.IFlowClient(sdkOptions);
-    await this.client.connect();
+    await this.connectClient(this.client, !this.cachedManualStart, env);
+    this.launchedWith = launchKey;
 
     // Install all monkey-patches once per connection.
     // patchQuestions and patchPermission are orthogonal and safe to
@@ -344,7 +410,38 @@ export class IFlowClient {
     this.log(`Connected to iFlow (mode=${mode}, cwd=${cwd}, sessionId=${this.loadedSessionId})`);
   }
 
-  async checkAvailability(): Promise<{ version: string | null; diagnostics: string }> {
+  /**
+   * Connect an SDK client. A managed process already got the credentials in
+   * its own environment. When the SDK spawns the CLI itself it cannot be
+   * given one, so the credentials are placed in process.env only while
+   * connect() launches it, holding envConnectLock for that time.
+   */
+  private async connectClient(client: SDKClientType, sdkStartsProcess: boolean, env: Record<string, string>): Promise<void> {
+    if (!sdkStartsProcess || Object.keys(env).length === 0) {
+      await client.connect();
+      return;
+    }
+    const connect = envConnectLock.then(async () => {
+      const previous = new Map(Object.keys(env).map(key => [key, process.env[key]]));
+      Object.assign(process.env, env);
+      try {
+        await client.connect();
+      } finally {
+        for (const [key, value] of previous) {
+          if (value === undefined) {
+            delete process.env[key];
+          } else {
+            process.env[key] = value;
+          }
+        }
+      }
+    });
+    // A failed connect must not block the next one
+    envConnectLock = connect.catch(() => {});
+    await connect;
+  }
+
+  async checkAvailability(credentials: LaunchCredentials = {}): Promise<{ version: string | null; diagnostics: string }> {
     const diag: string[] = [];
     diag.push(`platform: ${process.platform} (${process.arch})`);
     diag.push(`PATH (first 500): ${(process.env.PATH || '').substring(0, 500)}`);
@@ -370,7 +467,10 @@ export class IFlowClient {
         diag.push(`port: ${manualStart.port}`);
         iflowScriptPath = manualStart.iflowScript;
         this.logInfo(`Resolved: node=${manualStart.nodePath}, script=${manualStart.iflowScript}, port=${manualStart.port}`);
-        await this.processManager.startManagedProcess(manualStart.nodePath, manualStart.port, manualStart.iflowScript);
+        await this.processManager.startManagedProcess(
+          manualStart.nodePath, manualStart.port, manualStart.iflowScript, undefined, launchEnv(credentials)
+        );
+        this.launchedWith = JSON.stringify(launchEnv(credentials));
       } else {
         diag.push('mode: SDK auto-start (no manual node path resolved)');
         this.logInfo('No manual node path resolved, falling back to SDK auto-start');
@@ -378,7 +478,7 @@ export class IFlowClient {
 
       const sdk = await getSDK();
       const testClient = new sdk.IFlowClient(this.getSDKOptions(manualStart));
-      await testClient.connect();
+      await this.connectClient(testClient, !manualStart, launchEnv(credentials));
       await testClient.disconnect();
 
       this.logInfo('iFlow CLI is available (SDK connected)');
@@ -414,7 +514,7 @@ export class IFlowClient {
       }
 
       // Show output channel so user can see diagnostics
-      this.outputChannel?.show(true);
+      sharedOutputChannel?.show(true);
       return { version: null, diagnostics: diag.join('\n') + (suggestions.length > 0 ? '\n\n' + suggestions.join('\n') : '') };
     } finally {
       // Don't stop the managed process here - keep it running for future connections
@@ -428,6 +528,7 @@ export class IFlowClient {
     onError: (error: string) => void
   ): Promise<string | undefined> {
     this.isCancelled = false;
+    this.audit = options.onAudit ?? null;
     this.chunkMapper.reset();
     let returnSessionId: string | undefined;
 
@@ -439,9 +540,17 @@ export class IFlowClient {
 
     this.log(`Starting run with options: ${JSON.stringify({ mode: options.mode, model: options.model, think: options.think, sessionId: options.sessionId })}`);
 
+    let history = options.history;
     try {
+      // A replayed transcript replaces the CLI's own history, so the session
+      // currently loaded on the connection must not be reused
+      if (options.history && this.isConnected) {
+        this.log('Starting a fresh session for replayed conversation history');
+        await this.disconnect();
+      }
+
       // Establish or reuse a persistent connection
-      await this.ensureConnected(options.mode, options.cwd, options.fileAllowedDirs);
+      await this.ensureConnected(options.mode, options.cwd, options.fileAllowedDirs, options.credentials);
 
       // Drain any stale messages from a previous run
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -460,6 +569,10 @@ export class IFlowClient {
           this.log(`Loaded existing session: ${options.sessionId}`);
         } catch (err) {
           this.log(`Failed to load session ${options.sessionId}, continuing with current session: ${err instanceof Error ? err.message : String(err)}`);
+          if (options.fallbackHistory) {
+            this.log('Replaying conversation history into the current session instead');
+            history = options.fallbackHistory;
+          }
         }
       }
 
@@ -472,7 +585,11 @@ export class IFlowClient {
       }
 
       const sdk = await getSDK();
-      const prompt = this.chunkMapper.buildPrompt(options);
+      const { prompt, redactions } = this.chunkMapper.buildPrompt({ ...options, history, secretPatterns: this.getSecretPatterns() });
+      if (redactions.length > 0) {
+        this.logInfo(formatRedactionWarning(redactions));
+        onChunk({ chunkType: 'warning', message: formatRedactionWarning(redactions) });
+      }
 
       // In plan mode, inject the plan-mode workflow as a <system-reminder> into
       // the user message itself — mirroring what the CLI does on every turn via
@@ -483,6 +600,7 @@ export class IFlowClient {
         : prompt;
 
       this.log(`Sending message: ${finalPrompt.substring(0, 100)}...`);
+      this.usageTracker.begin(options.model, finalPrompt);
       await this.client!.sendMessage(finalPrompt);
 
       for await (const message of this.client!.receiveMessages()) {
@@ -493,15 +611,20 @@ export class IFlowClient {
 
         const chunks = await this.chunkMapper.mapMessageToChunks(message);
         for (const chunk of chunks) {
+          this.usageTracker.observe(chunk);
           onChunk(chunk);
         }
 
         if (message.type === sdk.MessageType.TASK_FINISH) {
           this.log(`Task finished with reason: ${message.stopReason}`);
+          this.usageTracker.report(parseUsage(message.usage));
           break;
         }
       }
 
+      const usage = this.usageTracker.finish();
+      this.log(`Run usage (${usage.source}): input=${usage.inputTokens}, output=${usage.outputTokens}`);
+      onChunk({ chunkType: 'usage', usage });
       onEnd();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -550,7 +673,8 @@ export class IFlowClient {
    */
   async dispose(): Promise<void> {
     await this.disconnect();
-    this.processManager.stopManagedProcess();
+    await this.processManager.stopManagedProcess();
+    this.launchedWith = null;
     this.processManager.clearAutoDetectCache();
     this.cachedManualStart = undefined;
   }
@@ -609,6 +733,12 @@ export class IFlowClient {
 
     ws.on('message', (data: { toString(): string }) => {
       const msg = data.toString();
+      // Usage only appears in raw ACP frames (prompt results / session updates)
+      this.usageTracker.report(findUsageInFrame(msg));
+      const models = findModelsInFrame(msg);
+      if (models) {
+        this.onModelsReported?.(models);
+      }
       if (skipNext) {
         skipNext = false;
         return; // Old handler also catches this one
@@ -810,6 +940,34 @@ export class IFlowClient {
 
       self.log(`patchPermission: permission request id=${id}, tool=${toolCall.title}, type=${toolCall.type}, options=${JSON.stringify(options)}`);
 
+      const request = describePermissionRequest(toolCall);
+      const decision = self.checkPermissionRules(request);
+      if (decision) {
+        const response = decision.action === 'allow'
+          ? { outcome: { outcome: 'selected', optionId: pickOption(options, 'allow_once') ?? 'proceed_once' } }
+          : rejectResponse(options);
+        self.logInfo(`Permission rule "${formatRule(decision.rule)}" answered ${request.toolName} (id=${id}): ${decision.action}`);
+        self.audit?.({
+          event: 'approval',
+          tool: request.toolName,
+          args: self.chunkMapper.permissionInput(toolCall),
+          outcome: decision.action === 'allow' ? 'allowed' : 'rejected',
+          requestId: id,
+          rule: formatRule(decision.rule),
+        });
+        if (decision.action === 'deny') {
+          messageQueue.push({
+            type: 'tool_call',
+            _permissionNotice: `Blocked by permission rule "${formatRule(decision.rule)}": ${request.command || request.title || request.toolName}`,
+          });
+        }
+        if (id !== undefined) {
+          await sendResult(id, response);
+        }
+        return { type: 'tool_confirmation', params, response };
+      }
+      self.permissionRequests.set(id, { request, args: self.chunkMapper.permissionInput(toolCall), options });
+
       // Push a confirmation message into messageQueue so the run() loop can
       // forward it to the webview via onChunk.
       messageQueue.push({
@@ -823,6 +981,8 @@ export class IFlowClient {
           type: toolCall.type || 'other',
           description: toolCall.title || '',
         },
+        _toolCall: toolCall,
+        _canAlwaysAllow: ruleFromApproval(request) !== null,
         _requestId: id,
       });
 
@@ -832,6 +992,8 @@ export class IFlowClient {
         self.pendingPermissions.set(id, resolve);
       });
 
+      self.permissionRequests.delete(id);
+
       // Send user's decision to iFlow CLI
       if (id !== undefined) {
         await sendResult(id, response);
@@ -844,6 +1006,40 @@ export class IFlowClient {
     this.log('patchPermission: Interactive permission handling installed');
   }
 
+  /** Built-in and iflow.redactionPatterns secrets, or undefined when iflow.redactSecrets is off. */
+  private getSecretPatterns(): SecretPattern[] | undefined {
+    const config = vscode.workspace.getConfiguration('iflow');
+    if (!config.get<boolean>('redactSecrets', true)) {
+      return undefined;
+    }
+    return [...BUILTIN_SECRET_PATTERNS, ...parseRedactionPatterns(config.get<unknown>('redactionPatterns')).patterns];
+  }
+
+  /**
+   * Rules from iflow.permissionRules of the folder this client runs in; a
+   * folder's workspace settings apply only to conversations in that folder.
+   */
+  private checkPermissionRules(request: PermissionRequest) {
+    const folder = this.connectedCwd ?? undefined;
+    return evaluatePermission(readPermissionRules(folder), request, folder);
+  }
+
+  private auditDecision(requestId: number, outcome: string): void {
+    const pending = this.permissionRequests.get(requestId);
+    this.audit?.({
+      event: 'approval',
+      tool: pending?.request.toolName ?? 'unknown',
+      args: pending?.args ?? {},
+      outcome,
+      requestId,
+    });
+  }
+
+  /** The tool name, command and paths of a pending permission request. */
+  getPermissionRequest(requestId: number): PermissionRequest | undefined {
+    return this.permissionRequests.get(requestId)?.request;
+  }
+
   /**
    * Approve a pending tool call permission request.
    */
@@ -854,6 +1050,7 @@ export class IFlowClient {
       return;
     }
 
+    this.auditDecision(requestId, outcome === 'alwaysAllow' ? 'always_allowed' : 'allowed');
     const optionId = outcome === 'alwaysAllow' ? 'proceed_always' : 'proceed_once';
     resolve({
       outcome: {
@@ -866,21 +1063,25 @@ export class IFlowClient {
   }
 
   /**
-   * Reject a pending tool call permission request.
+   * Reject a pending tool call permission request. With continueTurn only
+   * this tool call is declined and the agent goes on with the turn;
+   * otherwise the request is cancelled.
    */
-  async rejectToolCall(requestId: number): Promise<void> {
+  async rejectToolCall(requestId: number, continueTurn = false): Promise<void> {
     const resolve = this.pendingPermissions.get(requestId);
     if (!resolve) {
       this.log(`rejectToolCall: no pending permission for id ${requestId}`);
       return;
     }
 
-    resolve({
+    this.auditDecision(requestId, 'rejected');
+    const options = this.permissionRequests.get(requestId)?.options ?? [];
+    resolve(continueTurn ? rejectResponse(options) : {
       outcome: {
         outcome: 'cancelled',
       }
     });
     this.pendingPermissions.delete(requestId);
-    this.log(`rejectToolCall: rejected id=${requestId}`);
+    this.log(`rejectToolCall: rejected id=${requestId}, continueTurn=${continueTurn}`);
   }
 }
@@ -0,0 +1,59 @@
+// Approval, question and plan requests waiting for an answer, per conversation
+// and in arrival order. Parallel tool calls (e.g. from subagents) can ask
+// several at once; each stays queued until it is answered or the run ends.
+
+import { StreamChunk } from './protocol';
+
+export type InteractionChunk = Extract<StreamChunk, { chunkType: 'tool_confirmation' | 'user_question' | 'plan_approval' }>;
+type ConfirmationChunk = Extract<StreamChunk, { chunkType: 'tool_confirmation' }>;
+
+export function isInteractionChunk(chunk: StreamChunk): chunk is InteractionChunk {
+  return chunk.chunkType === 'tool_confirmation' || chunk.chunkType === 'user_question' || chunk.chunkType === 'plan_approval';
+}
+
+export class InteractionQueue {
+  private readonly queues = new Map<string, InteractionChunk[]>();
+
+  add(conversationId: string, chunk: InteractionChunk): void {
+    const queue = this.queues.get(conversationId) ?? [];
+    if (!queue.some(c => c.requestId === chunk.requestId)) {
+      queue.push(chunk);
+    }
+    this.queues.set(conversationId, queue);
+  }
+
+  remove(conversationId: string, requestId: number): void {
+    const queue = this.queues.get(conversationId)?.filter(c => c.requestId !== requestId);
+    if (queue && queue.length > 0) {
+      this.queues.set(conversationId, queue);
+    } else {
+      this.queues.delete(conversationId);
+    }
+  }
+
+  clear(conversationId: string): void {
+    this.queues.delete(conversationId);
+  }
+
+  list(conversationId: string): readonly InteractionChunk[] {
+    return this.queues.get(conversationId) ?? [];
+  }
+
+  /** Every queued request, for replaying to a view that attaches mid-run. */
+  entries(): Array<{ conversationId: string; chunk: InteractionChunk }> {
+    return [...this.queues].flatMap(([conversationId, queue]) => queue.map(chunk => ({ conversationId, chunk })));
+  }
+
+  /**
+   * Queued tool confirmations for the same tool and confirmation type as the
+   * given request, in order and including it; empty if it is not queued.
+   */
+  sameKind(conversationId: string, requestId: number): ConfirmationChunk[] {
+    const confirmations = this.list(conversationId).filter((c): c is ConfirmationChunk => c.chunkType === 'tool_confirmation');
+    const target = confirmations.find(c => c.requestId === requestId);
+    if (!target) {
+      return [];
+    }
+    return confirmations.filter(c => c.toolName === target.toolName && c.confirmationType === target.confirmationType);
+  }
+}
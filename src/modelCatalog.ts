@@ -0,0 +1,151 @@
+// Model catalog: the built-in models, models the CLI reports when a session
+// is created, and entries from the iflow.models setting, merged by id.
+
+import { ModelInfo, ModelType } from './protocol';
+
+export const DEFAULT_CONTEXT_SIZE = 128000;
+
+/** Models known at build time (context sizes from iFlow CLI's model configuration). */
+export const BUILTIN_MODELS: readonly ModelInfo[] = [
+  { id: 'GLM-4.7', displayName: 'GLM-4.7', contextSize: 200000, supportsThinking: true },
+  { id: 'GLM-5', displayName: 'GLM-5', contextSize: 200000, supportsThinking: true },
+  { id: 'DeepSeek-V3.2', displayName: 'DeepSeek-V3.2', contextSize: 128000, supportsThinking: true },
+  { id: 'iFlow-ROME-30BA3B(Preview)', displayName: 'iFlow-ROME-30BA3B (Preview)', contextSize: 256000, supportsThinking: true },
+  { id: 'Qwen3-Coder-Plus', displayName: 'Qwen3-Coder-Plus', contextSize: 256000, supportsThinking: false },
+  { id: 'Kimi-K2-Thinking', displayName: 'Kimi-K2-Thinking', contextSize: 256000, supportsThinking: true },
+  { id: 'MiniMax-M2.5', displayName: 'MiniMax-M2.5', contextSize: 128000, supportsThinking: true },
+  { id: 'MiniMax-M2.1', displayName: 'MiniMax-M2.1', contextSize: 128000, supportsThinking: true },
+  { id: 'Kimi-K2-0905', displayName: 'Kimi-K2-0905', contextSize: 256000, supportsThinking: false },
+  { id: 'Kimi-K2.5', displayName: 'Kimi-K2.5', contextSize: 262144, supportsThinking: true },
+];
+
+/** One entry of the iflow.models setting; everything but the id is optional. */
+export interface ModelSetting {
+  id: string;
+  displayName?: string;
+  contextSize?: number;
+  supportsThinking?: boolean;
+  /** Remove a built-in or CLI-reported model from the catalog. */
+  hidden?: boolean;
+}
+
+/**
+ * Validate the iflow.models setting. Invalid entries are skipped and described
+ * in errors (shown to the user) rather than failing the whole list.
+ */
+export function parseModelSettings(value: unknown): { entries: ModelSetting[]; errors: string[] } {
+  const entries: ModelSetting[] = [];
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { entries, errors };
+  }
+  if (!Array.isArray(value)) {
+    return { entries, errors: ['iflow.models must be an array'] };
+  }
+
+  value.forEach((item, i) => {
+    const where = `iflow.models[${i}]`;
+    if (typeof item === 'string') {
+      if (item.trim()) {
+        entries.push({ id: item.trim() });
+      } else {
+        errors.push(`${where} is an empty model id`);
+      }
+      return;
+    }
+    if (typeof item !== 'object' || item === null || typeof item.id !== 'string' || !item.id.trim()) {
+      errors.push(`${where} must be a model id or an object with an "id" string`);
+      return;
+    }
+    const entry: ModelSetting = { id: item.id.trim() };
+    if (item.displayName !== undefined) {
+      if (typeof item.displayName !== 'string' || !item.displayName.trim()) {
+        errors.push(`${where}.displayName must be a non-empty string`);
+        return;
+      }
+      entry.displayName = item.displayName.trim();
+    }
+    if (item.contextSize !== undefined) {
+      if (typeof item.contextSize !== 'number' || !Number.isInteger(item.contextSize) || item.contextSize <= 0) {
+        errors.push(`${where}.contextSize must be a positive integer`);
+        return;
+      }
+      entry.contextSize = item.contextSize;
+    }
+    for (const flag of ['supportsThinking', 'hidden'] as const) {
+      if (item[flag] !== undefined) {
+        if (typeof item[flag] !== 'boolean') {
+          errors.push(`${where}.${flag} must be true or false`);
+          return;
+        }
+        entry[flag] = item[flag];
+      }
+    }
+    entries.push(entry);
+  });
+  return { entries, errors };
+}
+
+/**
+ * Models listed in an ACP session/new result (`models.availableModels`).
+ * The CLI only reports ids and names; known metadata is filled in on merge.
+ */
+export function findModelsInFrame(raw: string): ModelInfo[] | null {
+  if (!raw.includes('availableModels')) {
+    return null;
+  }
+  try {
+    const available = JSON.parse(raw)?.result?.models?.availableModels;
+    if (!Array.isArray(available)) {
+      return null;
+    }
+    const models: ModelInfo[] = [];
+    for (const item of available) {
+      const id = typeof item?.modelId === 'string' ? item.modelId.trim() : '';
+      if (id) {
+        const name = typeof item.name === 'string' && item.name.trim() ? item.name.trim() : id;
+        models.push({ id, displayName: name, contextSize: DEFAULT_CONTEXT_SIZE, supportsThinking: false });
+      }
+    }
+    return models.length > 0 ? models : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge the catalog: built-ins first, then models only the CLI knows, then
+ * models only the settings add. Settings override any field by id and can
+ * hide models; CLI-reported models keep the built-in metadata they match.
+ */
+export function buildModelCatalog(cliModels: readonly ModelInfo[], settings: readonly ModelSetting[]): ModelInfo[] {
+  const catalog = new Map<string, ModelInfo>();
+  for (const model of BUILTIN_MODELS) {
+    catalog.set(model.id, { ...model });
+  }
+  for (const model of cliModels) {
+    if (!catalog.has(model.id)) {
+      catalog.set(model.id, { ...model });
+    }
+  }
+  for (const entry of settings) {
+    if (entry.hidden) {
+      catalog.delete(entry.id);
+      continue;
+    }
+    const base = catalog.get(entry.id) ?? { id: entry.id, displayName: entry.id, contextSize: DEFAULT_CONTEXT_SIZE, supportsThinking: false };
+    catalog.set(entry.id, {
+      id: entry.id,
+      displayName: entry.displayName ?? base.displayName,
+      contextSize: entry.contextSize ?? base.contextSize,
+      supportsThinking: entry.supportsThinking ?? base.supportsThinking,
+    });
+  }
+
+  // Hiding everything would leave nothing to run; fall back to the built-ins
+  return catalog.size > 0 ? [...catalog.values()] : BUILTIN_MODELS.map(m => ({ ...m }));
+}
+
+export function findModel(models: readonly ModelInfo[], id: ModelType): ModelInfo | undefined {
+  return models.find(m => m.id === id);
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { WebviewHandler } from './webviewHandler';
+import { IFlowSession } from './session';
 
 export class IFlowPanel {
   public static currentPanel: IFlowPanel | undefined;
@@ -8,7 +9,7 @@ export class IFlowPanel {
   private readonly panel: vscode.WebviewPanel;
   private readonly handler: WebviewHandler;
 
-  public static createOrShow(extensionUri: vscode.Uri, globalState: vscode.Memento): void {
+  public static createOrShow(extensionUri: vscode.Uri, session: IFlowSession): void {
     // If we already have a panel, show it
     if (IFlowPanel.currentPanel) {
       IFlowPanel.currentPanel.panel.reveal();
@@ -31,7 +32,7 @@ export class IFlowPanel {
       }
     );
 
-    IFlowPanel.currentPanel = new IFlowPanel(panel, extensionUri, globalState);
+    IFlowPanel.currentPanel = new IFlowPanel(panel, extensionUri, session);
 
     // Auto-lock the editor group so the panel stays pinned
     setTimeout(() => {
@@ -42,14 +43,14 @@ export class IFlowPanel {
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
-    globalState: vscode.Memento
+    session: IFlowSession
   ) {
     this.panel = panel;
 
     // Set the panel tab icon to iflow_favicon.svg
     this.panel.iconPath = vscode.Uri.joinPath(extensionUri, 'media', 'iflow_favicon.svg');
 
-    this.handler = new WebviewHandler(extensionUri, globalState);
+    this.handler = new WebviewHandler(extensionUri, session);
 
     // Bind handler to this webview
     this.handler.bindWebview(panel.webview);
@@ -0,0 +1,293 @@
+// Tool permission rules from the iflow.permissionRules setting: allow/deny
+// patterns on tool name, shell command prefix and file path globs, checked
+// before the user is asked to approve a tool call.
+
+import * as path from 'path';
+
+export interface PermissionRule {
+  action: 'allow' | 'deny';
+  /** Tool name; `*` matches any run of characters (e.g. "mcp_*"). Case-insensitive. */
+  tool?: string;
+  /** Shell command prefix, matched on whole words: "npm test" matches "npm test -- -u", not "npm tests". */
+  command?: string;
+  /** Glob on the paths the tool touches, relative to the workspace folder ("src/**", "**\/.env*"). */
+  path?: string;
+}
+
+/** What a permission request asks for, as far as rules can see it. */
+export interface PermissionRequest {
+  toolName: string;
+  /** Confirmation type reported by the CLI (edit, exec, mcp, info, ...). */
+  kind: string;
+  title: string;
+  command?: string;
+  paths: string[];
+}
+
+export interface PermissionDecision {
+  action: 'allow' | 'deny';
+  rule: PermissionRule;
+}
+
+const RULE_KEYS = ['tool', 'command', 'path'] as const;
+
+/** Validate the iflow.permissionRules setting; invalid entries are skipped and described. */
+export function parsePermissionRules(value: unknown): { rules: PermissionRule[]; errors: string[] } {
+  const rules: PermissionRule[] = [];
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { rules, errors };
+  }
+  if (!Array.isArray(value)) {
+    return { rules, errors: ['iflow.permissionRules must be an array'] };
+  }
+
+  value.forEach((item, i) => {
+    const where = `iflow.permissionRules[${i}]`;
+    if (typeof item !== 'object' || item === null) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (item.action !== 'allow' && item.action !== 'deny') {
+      errors.push(`${where}.action must be "allow" or "deny"`);
+      return;
+    }
+    const rule: PermissionRule = { action: item.action };
+    for (const key of RULE_KEYS) {
+      if (item[key] === undefined) {
+        continue;
+      }
+      if (typeof item[key] !== 'string' || !item[key].trim()) {
+        errors.push(`${where}.${key} must be a non-empty string`);
+        return;
+      }
+      rule[key] = item[key].trim();
+    }
+    if (RULE_KEYS.every(key => rule[key] === undefined)) {
+      errors.push(`${where} must set at least one of tool, command or path`);
+      return;
+    }
+    rules.push(rule);
+  });
+  return { rules, errors };
+}
+
+// ── Requests ────────────────────────────────────────────────────────
+
+function stringField(obj: unknown, key: string): string | undefined {
+  if (typeof obj !== 'object' || obj === null) {
+    return undefined;
+  }
+  const value = (obj as Record<string, unknown>)[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+const PATH_INPUT_KEYS = ['file_path', 'absolute_path', 'path', 'notebook_path'];
+
+/**
+ * Read tool name, command and paths from the `toolCall` of an ACP
+ * session/request_permission request. Paths come from its locations, diff
+ * content and raw input, whichever the CLI filled in.
+ */
+export function describePermissionRequest(toolCall: Record<string, unknown>): PermissionRequest {
+  const rawInput = toolCall.rawInput;
+  const title = stringField(toolCall, 'title') ?? '';
+  const paths = new Set<string>();
+  const addPath = (value: unknown) => {
+    if (typeof value === 'string' && value.trim()) {
+      paths.add(value.trim());
+    }
+  };
+
+  if (Array.isArray(toolCall.locations)) {
+    for (const location of toolCall.locations) {
+      addPath(location?.path);
+    }
+  }
+  if (Array.isArray(toolCall.content)) {
+    for (const item of toolCall.content) {
+      if (item?.type === 'diff') {
+        addPath(item.path);
+      }
+    }
+  }
+  for (const key of PATH_INPUT_KEYS) {
+    addPath(stringField(rawInput, key));
+  }
+
+  return {
+    toolName: stringField(toolCall, 'toolName') ?? stringField(toolCall, 'name') ?? (title || 'unknown'),
+    kind: stringField(toolCall, 'type') ?? stringField(toolCall, 'kind') ?? 'other',
+    title,
+    command: stringField(rawInput, 'command') ?? stringField(toolCall, 'command'),
+    paths: [...paths],
+  };
+}
+
+// ── Matching ────────────────────────────────────────────────────────
+
+/** Glob to RegExp: `**` spans directories, `*` and `?` stay within one, `{a,b}` alternates. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches no directory at all
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Shell operators that chain or substitute commands; a prefix rule cannot vouch for the rest. */
+const COMMAND_SEPARATOR = /&&|\|\||[;|&\n]|`|\$\(/;
+
+/** Redirection and process substitution (`>`, `>>`, `<`, `<(`, `>(`): they write or read files a prefix rule knows nothing of. */
+const REDIRECTION = /[<>]/;
+
+function matchesCommandPrefix(command: string, prefix: string): boolean {
+  const normalized = command.trim().replace(/\s+/g, ' ');
+  const wanted = prefix.trim().replace(/\s+/g, ' ');
+  return normalized === wanted || normalized.startsWith(`${wanted} `);
+}
+
+/**
+ * Path relative to the workspace folder with forward slashes, or undefined
+ * for a path outside it (or any absolute path when there is no folder).
+ */
+function workspacePath(filePath: string, cwd?: string): string | undefined {
+  let relative = path.normalize(filePath);
+  if (path.isAbsolute(relative)) {
+    if (!cwd) {
+      return undefined;
+    }
+    relative = path.relative(cwd, relative);
+  }
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return relative.replace(/\\/g, '/');
+}
+
+/**
+ * Whether a rule applies to a request; every field the rule sets must match.
+ * Allow rules are strict: every path the request touches must lie inside the
+ * workspace folder (and match the rule's glob, if it has one), and chained
+ * or redirected commands (`a && b`, `a | b`, `$(...)`, `a > file`) never do. Deny rules match if any path (inside the folder or
+ * not) or any part of a chained command does.
+ */
+export function matchesRule(rule: PermissionRule, request: PermissionRequest, cwd?: string): boolean {
+  if (rule.tool && !new RegExp(`^${rule.tool.split('*').map(escapeRegExp).join('.*')}$`, 'i').test(request.toolName)) {
+    return false;
+  }
+  if (rule.command) {
+    const command = request.command;
+    if (!command) {
+      return false;
+    }
+    const parts = command.split(COMMAND_SEPARATOR);
+    const matched = rule.action === 'allow'
+      ? parts.length === 1 && !REDIRECTION.test(command) && matchesCommandPrefix(command, rule.command)
+      : parts.some(part => matchesCommandPrefix(part, rule.command as string));
+    if (!matched) {
+      return false;
+    }
+  }
+  if (rule.action === 'allow' && !rule.path && request.paths.some(p => workspacePath(p, cwd) === undefined)) {
+    return false;
+  }
+  if (rule.path) {
+    if (request.paths.length === 0) {
+      return false;
+    }
+    const pattern = globToRegExp(rule.path);
+    const matched = rule.action === 'allow'
+      ? request.paths.every(p => {
+        const relative = workspacePath(p, cwd);
+        return relative !== undefined && pattern.test(relative);
+      })
+      : request.paths.some(p => pattern.test(workspacePath(p, cwd) ?? p.replace(/\\/g, '/')));
+    if (!matched) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** The decision of the first matching rule; deny rules win over allow rules. */
+export function evaluatePermission(rules: readonly PermissionRule[], request: PermissionRequest, cwd?: string): PermissionDecision | null {
+  for (const action of ['deny', 'allow'] as const) {
+    const rule = rules.find(r => r.action === action && matchesRule(r, request, cwd));
+    if (rule) {
+      return { action, rule };
+    }
+  }
+  return null;
+}
+
+/**
+ * Programs whose arguments are themselves commands or code (`bash -c ...`,
+ * `python -c ...`, `sudo ...`); no prefix of theirs is safe to allow.
+ */
+const COMMAND_RUNNERS = new Set([
+  'sh', 'bash', 'zsh', 'fish', 'dash', 'ksh', 'csh', 'tcsh', 'pwsh', 'powershell', 'cmd',
+  'python', 'python2', 'python3', 'node', 'deno', 'bun', 'ruby', 'perl', 'php', 'lua', 'osascript',
+  'sudo', 'doas', 'su', 'env', 'xargs', 'eval', 'exec', 'source', '.', 'command', 'builtin',
+  'nohup', 'nice', 'time', 'timeout', 'watch', 'ssh',
+]);
+
+/**
+ * The rule "always allow" saves: the tool, narrowed for shell commands to the
+ * program and its subcommand ("git status", "npm run"), so approving one
+ * command does not approve every command. Null when the command has no such
+ * subcommand (`rm -rf build`, `ls`) or runs other commands (`bash -c ...`):
+ * a program-only rule would approve everything it can do.
+ */
+export function ruleFromApproval(request: PermissionRequest): PermissionRule | null {
+  const rule: PermissionRule = { action: 'allow', tool: request.toolName };
+  if (request.command) {
+    const words = request.command.trim().split(/\s+/);
+    const program = path.basename(words[0]).toLowerCase();
+    if (COMMAND_RUNNERS.has(program) || words.length < 2 || !/^[\w:.-]+$/.test(words[1]) || words[1].startsWith('-')) {
+      return null;
+    }
+    rule.command = `${words[0]} ${words[1]}`;
+  }
+  return rule;
+}
+
+export function formatRule(rule: PermissionRule): string {
+  const parts: string[] = [];
+  if (rule.tool) {
+    parts.push(`tool ${rule.tool}`);
+  }
+  if (rule.command) {
+    parts.push(`command "${rule.command}"`);
+  }
+  if (rule.path) {
+    parts.push(`path ${rule.path}`);
+  }
+  return `${rule.action === 'allow' ? 'Allow' : 'Deny'} ${parts.join(', ')}`;
+}
@@ -0,0 +1,189 @@
+// Reading and editing the iflow.permissionRules setting: rules saved by
+// "always allow" and the "Manage Permission Rules" quick pick.
+
+import * as vscode from 'vscode';
+import { PermissionRule, formatRule, parsePermissionRules } from './permissionRules';
+
+const SETTING = 'permissionRules';
+
+/**
+ * Rules in effect for a folder (its workspace settings over user settings).
+ * In an untrusted workspace only deny rules are taken from workspace and
+ * folder settings: a cloned repository must not be able to approve tool calls.
+ */
+export function readPermissionRules(folder?: string): PermissionRule[] {
+  const scope = folder ? vscode.Uri.file(folder) : undefined;
+  const config = vscode.workspace.getConfiguration('iflow', scope);
+  if (vscode.workspace.isTrusted) {
+    return parsePermissionRules(config.get<unknown>(SETTING)).rules;
+  }
+  const inspected = config.inspect<unknown>(SETTING);
+  const workspaceRules = [inspected?.workspaceValue, inspected?.workspaceFolderValue]
+    .flatMap(value => parsePermissionRules(value).rules)
+    .filter(rule => rule.action === 'deny');
+  return [...parsePermissionRules(inspected?.globalValue).rules, ...workspaceRules];
+}
+
+/** Warn about entries of the setting that are ignored. */
+export function validatePermissionRuleSettings(): void {
+  const { errors } = parsePermissionRules(vscode.workspace.getConfiguration('iflow').get<unknown>(SETTING));
+  if (errors.length > 0) {
+    vscode.window.showWarningMessage(`iFlow: Ignoring invalid permission rules: ${errors.join('; ')}`);
+  }
+}
+
+interface RuleTarget {
+  scope: vscode.Uri | undefined;
+  target: vscode.ConfigurationTarget;
+  label: string;
+}
+
+/**
+ * Where rules for a folder are saved: the folder's own settings in a
+ * multi-root workspace, the workspace settings otherwise, and user settings
+ * when no folder is open.
+ */
+function ruleTarget(folder?: string): RuleTarget {
+  const workspaceFolder = folder
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folder))
+    : vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    return { scope: undefined, target: vscode.ConfigurationTarget.Global, label: 'user settings' };
+  }
+  if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+    return { scope: workspaceFolder.uri, target: vscode.ConfigurationTarget.WorkspaceFolder, label: `${workspaceFolder.name} folder settings` };
+  }
+  return { scope: workspaceFolder.uri, target: vscode.ConfigurationTarget.Workspace, label: 'workspace settings' };
+}
+
+/** The raw entries stored at exactly this target, not merged with other levels. */
+function storedRules({ scope, target }: RuleTarget): unknown[] {
+  const inspected = vscode.workspace.getConfiguration('iflow', scope).inspect<unknown[]>(SETTING);
+  const value = target === vscode.ConfigurationTarget.WorkspaceFolder ? inspected?.workspaceFolderValue
+    : target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue
+      : inspected?.globalValue;
+  return Array.isArray(value) ? value : [];
+}
+
+async function writeRules(target: RuleTarget, rules: unknown[]): Promise<void> {
+  await vscode.workspace.getConfiguration('iflow', target.scope)
+    .update(SETTING, rules.length > 0 ? rules : undefined, target.target);
+}
+
+function sameRule(a: unknown, b: PermissionRule): boolean {
+  const { rules } = parsePermissionRules([a]);
+  const rule = rules[0];
+  return !!rule && rule.action === b.action && rule.tool === b.tool && rule.command === b.command && rule.path === b.path;
+}
+
+/** Append a rule to the folder's settings unless an identical rule is already there. */
+export async function addPermissionRule(rule: PermissionRule, folder?: string): Promise<void> {
+  const target = ruleTarget(folder);
+  const rules = storedRules(target);
+  if (rules.some(r => sameRule(r, rule))) {
+    return;
+  }
+  await writeRules(target, [...rules, rule]);
+}
+
+// ── Management UI ───────────────────────────────────────────────────
+
+type RuleItem = vscode.QuickPickItem & { run: () => Promise<boolean> };
+
+async function promptRule(action: PermissionRule['action']): Promise<PermissionRule | undefined> {
+  const ask = (prompt: string, placeHolder: string) => vscode.window.showInputBox({
+    title: `${action === 'allow' ? 'Allow' : 'Deny'} rule`,
+    prompt: `${prompt} Leave empty to match any.`,
+    placeHolder,
+    ignoreFocusOut: true,
+  });
+  const tool = await ask('Tool name; * matches any characters.', 'run_shell_command');
+  if (tool === undefined) {
+    return undefined;
+  }
+  const command = await ask('Shell command prefix, matched on whole words.', 'npm test');
+  if (command === undefined) {
+    return undefined;
+  }
+  const path = await ask('Path glob relative to the workspace folder.', 'src/**');
+  if (path === undefined) {
+    return undefined;
+  }
+  const rule: PermissionRule = { action };
+  if (tool.trim()) {
+    rule.tool = tool.trim();
+  }
+  if (command.trim()) {
+    rule.command = command.trim();
+  }
+  if (path.trim()) {
+    rule.path = path.trim();
+  }
+  if (!rule.tool && !rule.command && !rule.path) {
+    vscode.window.showWarningMessage('iFlow: A permission rule needs a tool, command or path.');
+    return undefined;
+  }
+  return rule;
+}
+
+/**
+ * Quick pick over the rules saved for the workspace: pick a rule to remove it,
+ * or add allow/deny rules. Rules from other settings levels are edited in
+ * the settings editor.
+ */
+export async function managePermissionRules(): Promise<void> {
+  const target = ruleTarget();
+  for (;;) {
+    const stored = storedRules(target);
+    const items: RuleItem[] = stored.map((entry, index) => {
+      const parsed = parsePermissionRules([entry]).rules[0];
+      return {
+        label: parsed ? formatRule(parsed) : '$(warning) Invalid rule',
+        description: parsed ? undefined : JSON.stringify(entry),
+        detail: 'Select to remove',
+        run: async () => {
+          await writeRules(target, stored.filter((_, i) => i !== index));
+          return true;
+        },
+      };
+    });
+    items.push(
+      { label: '', kind: vscode.QuickPickItemKind.Separator, run: async () => true },
+      {
+        label: '$(add) Add allow rule',
+        run: async () => {
+          const rule = await promptRule('allow');
+          if (rule) {
+            await addPermissionRule(rule);
+          }
+          return true;
+        },
+      },
+      {
+        label: '$(circle-slash) Add deny rule',
+        run: async () => {
+          const rule = await promptRule('deny');
+          if (rule) {
+            await addPermissionRule(rule);
+          }
+          return true;
+        },
+      },
+      {
+        label: '$(gear) Open settings',
+        run: async () => {
+          await vscode.commands.executeCommand('workbench.action.openSettings', 'iflow.permissionRules');
+          return false;
+        },
+      },
+    );
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: `Permission rules (${target.label})`,
+      placeHolder: stored.length > 0 ? 'Deny rules win over allow rules' : 'No rules yet; tool calls ask for approval',
+    });
+    if (!picked || !(await picked.run())) {
+      return;
+    }
+  }
+}
@@ -8,6 +8,7 @@ import { findIFlowPathCrossPlatform, resolveIFlowScriptCrossPlatform, deriveNode
 const PROCESS_STARTUP_TIMEOUT_MS = 30_000;
 const PROCESS_READY_FALLBACK_MS = 2_000;
 const PROCESS_INIT_DELAY_MS = 500;
+const PROCESS_STOP_TIMEOUT_MS = 5_000;
 
 export interface ManualStartInfo {
   nodePath: string;
@@ -118,8 +119,15 @@ export class ProcessManager {
   /**
    * Start iFlow process manually with a specific Node path.
    * If iflowScript is provided, uses it directly; otherwise discovers it.
+   * env is added to the inherited environment (credentials are passed this way).
    */
-  async startManagedProcess(nodePath: string, port: number, iflowScript?: string, cwd?: string): Promise<void> {
+  async startManagedProcess(
+    nodePath: string,
+    port: number,
+    iflowScript?: string,
+    cwd?: string,
+    env: Record<string, string> = {}
+  ): Promise<void> {
     if (!iflowScript) {
       const logFn = this.logInfo;
       const iflowPath = await findIFlowPathCrossPlatform(logFn);
@@ -142,7 +150,7 @@ export class ProcessManager {
 
       this.managedProcess = cp.spawn(nodePath, args, {
         cwd: cwd ?? process.cwd(),
-        env: { ...process.env },
+        env: { ...process.env, ...env },
         stdio: ['pipe', 'pipe', 'pipe'],
       });
 
@@ -328,23 +336,37 @@ export class ProcessManager {
   /**
    * Stop the managed iFlow process.
    * Uses taskkill on Windows (SIGTERM is unreliable there).
+   * Resolves once the process has exited (or after a grace period), so its
+   * port can be reused.
    */
-  stopManagedProcess(): void {
-    if (this.managedProcess) {
-      this.log('Stopping managed iFlow process');
-      if (process.platform === 'win32') {
-        try {
-          cp.execSync(
-            `taskkill /F /T /PID ${this.managedProcess.pid}`,
-            { windowsHide: true, timeout: 5000, stdio: 'ignore' }
-          );
-        } catch {
-          // Process may have already exited
-        }
-      } else {
-        this.managedProcess.kill('SIGTERM');
+  stopManagedProcess(): Promise<void> {
+    const child = this.managedProcess;
+    if (!child) {
+      return Promise.resolve();
+    }
+    this.log('Stopping managed iFlow process');
+    const exited = child.exitCode !== null || child.signalCode !== null
+      ? Promise.resolve()
+      : new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, PROCESS_STOP_TIMEOUT_MS);
+        child.once('exit', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    if (process.platform === 'win32') {
+      try {
+        cp.execSync(
+          `taskkill /F /T /PID ${child.pid}`,
+          { windowsHide: true, timeout: 5000, stdio: 'ignore' }
+        );
+      } catch {
+        // Process may have already exited
       }
-      this.managedProcess = null;
+    } else {
+      child.kill('SIGTERM');
     }
+    this.managedProcess = null;
+    return exited;
   }
 }
@@ -2,34 +2,40 @@
 
 export type ConversationMode = 'default' | 'yolo' | 'plan' | 'smart';
 
-export const MODELS = [
-  'GLM-4.7',
-  'GLM-5',
-  'DeepSeek-V3.2',
-  'iFlow-ROME-30BA3B(Preview)',
-  'Qwen3-Coder-Plus',
-  'Kimi-K2-Thinking',
-  'MiniMax-M2.5',
-  'MiniMax-M2.1',
-  'Kimi-K2-0905',
-  'Kimi-K2.5'
-] as const;
-
-export type ModelType = typeof MODELS[number];
-
-// Context window sizes per model (from iFlow CLI's model configuration)
-export const MODEL_CONTEXT_SIZES: Record<ModelType, number> = {
-  'GLM-4.7': 200000,
-  'GLM-5': 200000,
-  'DeepSeek-V3.2': 128000,
-  'iFlow-ROME-30BA3B(Preview)': 256000,
-  'Qwen3-Coder-Plus': 256000,
-  'Kimi-K2-Thinking': 256000,
-  'MiniMax-M2.5': 128000,
-  'MiniMax-M2.1': 128000,
-  'Kimi-K2-0905': 256000,
-  'Kimi-K2.5': 262144,
-};
+// Model id as passed to the CLI. The available models come from the model
+// catalog (built-ins, CLI-reported models and the iflow.models setting).
+export type ModelType = string;
+
+// A selectable model with the metadata the UI and context meter need
+export interface ModelInfo {
+  id: ModelType;
+  displayName: string;
+  contextSize: number;
+  supportsThinking: boolean;
+}
+
+// An OpenAI-compatible provider profile as shown in the UI (the API key stays
+// in the extension's SecretStorage)
+export interface ProviderInfo {
+  id: string;
+  baseUrl: string;
+  models: ModelInfo[];
+  hasApiKey: boolean;
+}
+
+// Sign-in state shown in the account menu (tokens and keys never leave the extension)
+export interface AccountInfo {
+  /** selectedAuthType from ~/.iflow/settings.json; null when the CLI has none. */
+  authType: string | null;
+  loggedIn: boolean;
+  userName?: string;
+  email?: string;
+  avatar?: string;
+  /** Access token expiry, ms since epoch. */
+  expiresAt?: number;
+  /** Whether an API key is kept in secret storage. */
+  hasApiKey: boolean;
+}
 
 // Stream chunk types from CLI output
 export type StreamChunk =
@@ -37,10 +43,10 @@ export type StreamChunk =
   | { chunkType: 'code_start'; language: string; filename?: string }
   | { chunkType: 'code_content'; content: string }
   | { chunkType: 'code_end' }
-  | { chunkType: 'tool_start'; name: string; input: Record<string, unknown>; label?: string }
+  | { chunkType: 'tool_start'; name: string; input: Record<string, unknown>; label?: string; toolCallId?: string }
   | { chunkType: 'tool_output'; content: string }
-  | { chunkType: 'tool_end'; status: 'completed' | 'error' }
-  | { chunkType: 'tool_confirmation'; requestId: number; toolName: string; description: string; confirmationType: string }
+  | { chunkType: 'tool_end'; status: 'completed' | 'error'; toolCallId?: string }
+  | { chunkType: 'tool_confirmation'; requestId: number; toolName: string; description: string; confirmationType: string; input: Record<string, unknown>; canAlwaysAllow: boolean }
   | { chunkType: 'user_question'; requestId: number; questions: Array<{ question: string; header: string; options: Array<{ label: string; description: string }>; multiSelect: boolean }> }
   | { chunkType: 'plan_approval'; requestId: number; plan: string }
   | { chunkType: 'thinking_start' }
@@ -49,13 +55,76 @@ export type StreamChunk =
   | { chunkType: 'file_ref'; path: string; lineStart?: number; lineEnd?: number }
   | { chunkType: 'plan'; entries: Array<{ content: string; status: string; priority: string }> }
   | { chunkType: 'error'; message: string }
-  | { chunkType: 'warning'; message: string };
+  | { chunkType: 'warning'; message: string }
+  | { chunkType: 'usage'; usage: TokenUsage };
+
+// Token usage of one assistant turn: reported by the CLI ('cli'), or counted
+// with the model's tokenizer when the CLI reports nothing ('estimate').
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  source: 'cli' | 'estimate';
+}
+
+// Review decision for a single hunk of an agent file edit
+export type HunkDecision = 'pending' | 'accepted' | 'reverted';
+
+// A contiguous changed region produced by a write/edit tool call.
+// Line numbers are 1-based; newStart refers to the file right after the edit.
+export interface EditHunk {
+  oldStart: number;
+  oldLines: string[];
+  newStart: number;
+  newLines: string[];
+  decision: HunkDecision;
+}
+
+// Review state attached to a write/edit tool block
+export interface EditReview {
+  filePath: string;
+  hunks: EditHunk[];
+}
+
+// A file as it was before an assistant turn first modified it. blob is the
+// SHA-256 of its content in the checkpoint store, null when the file did not
+// exist yet; checkpoints of earlier versions hold the content inline instead.
+export interface FileSnapshot {
+  path: string;
+  blob: string | null;
+  content?: string | null;
+}
+
+// Files touched by write/edit tools during one assistant turn, captured before
+// the turn changed them. Used to rewind the workspace to an earlier point.
+// skipped lists files left out because the checkpoint store was full;
+// rewinding leaves them as they are.
+export interface Checkpoint {
+  files: FileSnapshot[];
+  skipped?: string[];
+}
+
+// One version of a conversation from a branch point onward, with the CLI
+// session that produced it so switching back can resume it.
+export interface ConversationBranch {
+  messages: Message[];
+  sessionId?: string;
+  seedContext?: string;
+}
+
+// Sibling versions of a conversation that diverge at one message (an edited
+// prompt or a regenerated answer). Stored on the first message of the active
+// version; that version lives in Conversation.messages, so its slot is null.
+export interface BranchSet {
+  branches: Array<ConversationBranch | null>;
+  active: number;
+}
 
 // Output blocks in messages
 export type OutputBlock =
   | { type: 'text'; content: string }
   | { type: 'code'; language: string; filename?: string; content: string }
-  | { type: 'tool'; name: string; input: Record<string, unknown>; output: string; status: 'running' | 'completed' | 'error'; label?: string }
+  | { type: 'tool'; name: string; input: Record<string, unknown>; output: string; status: 'running' | 'completed' | 'error'; label?: string; review?: EditReview; toolCallId?: string }
   | { type: 'thinking'; content: string; collapsed: boolean }
   | { type: 'file_ref'; path: string; lineStart?: number; lineEnd?: number }
   | { type: 'plan'; entries: Array<{ content: string; status: string; priority: string }> }
@@ -71,6 +140,16 @@ export interface Message {
   attachedFiles: AttachedFile[];
   timestamp: number;
   streaming?: boolean;
+  checkpoint?: Checkpoint;
+  branchSet?: BranchSet;
+  // Model that produced an assistant message
+  model?: ModelType;
+  usage?: TokenUsage;
+  // Wall-clock time from the start of an assistant run to its end
+  durationMs?: number;
+  // Set on the assistant message that summarizes everything before it; later
+  // runs start a fresh CLI session seeded with that summary
+  compaction?: { usedTokens: number; totalTokens: number };
 }
 
 // Attached file
@@ -92,6 +171,21 @@ export interface IDEContext {
   } | null;
 }
 
+// Where in a message a search match was found
+export type SearchSource = 'message' | 'tool' | 'file';
+
+// A message matching a history search. matches are [start, length] ranges in snippet.
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  source: SearchSource;
+  timestamp: number;
+  snippet: string;
+  matches: Array<[number, number]>;
+}
+
 // Conversation state
 export interface Conversation {
   id: string;
@@ -104,6 +198,11 @@ export interface Conversation {
   updatedAt: number;
   sessionId?: string;
   workspaceFolderUri?: string;
+  // Transcript replayed into the next prompt when the CLI session was discarded
+  // (e.g. after a rewind); cleared once a new session has been established.
+  seedContext?: string;
+  // Provider profile the conversation runs against; unset uses the CLI's own configuration
+  providerId?: string;
 }
 
 export interface ConversationState {
@@ -112,8 +211,13 @@ export interface ConversationState {
   cliAvailable: boolean;
   cliVersion: string | null;
   cliDiagnostics: string | null;
+  // Whether the current conversation has a run in progress
   isStreaming: boolean;
-  contextUsage?: { usedTokens: number; totalTokens: number; percent: number };
+  streamingConversationIds: string[];
+  contextUsage?: { usedTokens: number; totalTokens: number; percent: number; source: TokenUsage['source'] };
+  models: ModelInfo[];
+  providers: ProviderInfo[];
+  account: AccountInfo;
   workspaceFolders: Array<{ uri: string; name: string }>;
   isMultiRoot: boolean;
 }
@@ -133,12 +237,25 @@ export type WebviewMessage =
   | { type: 'setModel'; model: ModelType }
   | { type: 'setWorkspaceFolder'; uri: string }
   | { type: 'sendMessage'; content: string; attachedFiles: AttachedFile[]; ideContext?: IDEContext }
-  | { type: 'toolApproval'; requestId: number; outcome: 'allow' | 'alwaysAllow' | 'reject' }
-  | { type: 'questionAnswer'; requestId: number; answers: Record<string, string | string[]> }
-  | { type: 'planApproval'; requestId: number; option: 'smart' | 'default' | 'keep' | 'feedback'; feedback?: string }
+  | { type: 'openToolDiff'; messageId: string; blockIndex: number }
+  | { type: 'reviewHunk'; messageId: string; blockIndex: number; hunkIndex: number; decision: 'accepted' | 'reverted' }
+  | { type: 'rewindToMessage'; messageId: string }
+  | { type: 'editMessage'; messageId: string; content: string }
+  | { type: 'switchBranch'; messageId: string; branchIndex: number }
+  | { type: 'regenerateResponse'; messageId: string; model?: ModelType }
+  | { type: 'compactConversation' }
+  | { type: 'setProvider'; providerId: string | null }
+  | { type: 'exportConversation'; conversationId: string }
+  | { type: 'searchConversations'; query: string }
+  | { type: 'exportHtmlRendered'; requestId: number; html: string }
+  | { type: 'toolApproval'; conversationId: string; requestId: number; outcome: 'allow' | 'alwaysAllow' | 'reject'; feedback?: string }
+  | { type: 'toolApprovalAll'; conversationId: string; requestId: number }
+  | { type: 'questionAnswer'; conversationId: string; requestId: number; answers: Record<string, string | string[]> }
+  | { type: 'planApproval'; conversationId: string; requestId: number; option: 'smart' | 'default' | 'keep' | 'feedback'; feedback?: string }
   | { type: 'cancelCurrent' }
   | { type: 'recheckCli' }
   | { type: 'startAuth' }
+  | { type: 'logout' }
   | { type: 'ready' };
 
 // Messages from extension to webview
@@ -147,7 +264,10 @@ export type ExtensionMessage =
   | { type: 'workspaceFiles'; files: { path: string; name: string }[] }
   | { type: 'fileContents'; files: AttachedFile[] }
   | { type: 'stateUpdated'; state: ConversationState }
-  | { type: 'streamChunk'; chunk: StreamChunk }
-  | { type: 'streamEnd' }
-  | { type: 'streamError'; error: string }
+  | { type: 'streamChunk'; conversationId: string; chunk: StreamChunk }
+  | { type: 'streamEnd'; conversationId: string }
+  | { type: 'streamError'; conversationId: string; error: string }
+  | { type: 'interactionResolved'; conversationId: string; requestId: number }
+  | { type: 'renderExportHtml'; requestId: number; conversation: Conversation }
+  | { type: 'searchResults'; query: string; results: SearchResult[] }
   | { type: 'ideContextChanged'; context: IDEContext };
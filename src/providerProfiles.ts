@@ -0,0 +1,86 @@
+// Named OpenAI-compatible provider profiles from the iflow.providers setting.
+// API keys are kept in SecretStorage, never in settings.
+
+import { ModelInfo } from './protocol';
+import { DEFAULT_CONTEXT_SIZE, findModel, parseModelSettings } from './modelCatalog';
+
+export interface ProviderProfile {
+  id: string;
+  baseUrl: string;
+  models: ModelInfo[];
+}
+
+/** What a run needs to point the CLI at a provider. */
+export interface ProviderCredentials {
+  id: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+/**
+ * SecretStorage key of a profile's API key. Keyed by name only, which is safe
+ * because iflow.providers is application scoped: workspace settings cannot
+ * redefine a profile's baseUrl.
+ */
+export function providerSecretKey(providerId: string): string {
+  return `iflow.provider.${providerId}.apiKey`;
+}
+
+/**
+ * Validate the iflow.providers setting. Model entries use the iflow.models
+ * format; metadata for ids in the catalog is taken from there.
+ */
+export function parseProviderSettings(
+  value: unknown,
+  catalog: readonly ModelInfo[]
+): { profiles: ProviderProfile[]; errors: string[] } {
+  const profiles: ProviderProfile[] = [];
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { profiles, errors };
+  }
+  if (!Array.isArray(value)) {
+    return { profiles, errors: ['iflow.providers must be an array'] };
+  }
+
+  value.forEach((item, i) => {
+    const where = `iflow.providers[${i}]`;
+    if (typeof item !== 'object' || item === null) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    const id = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!id) {
+      errors.push(`${where}.name must be a non-empty string`);
+      return;
+    }
+    if (profiles.some(p => p.id === id)) {
+      errors.push(`${where}.name "${id}" is used by another provider`);
+      return;
+    }
+    if (typeof item.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(item.baseUrl.trim())) {
+      errors.push(`${where}.baseUrl must be an http(s) URL`);
+      return;
+    }
+
+    const parsed = parseModelSettings(item.models);
+    errors.push(...parsed.errors.map(e => e.replace('iflow.models', `${where}.models`)));
+    const models = parsed.entries
+      .filter(entry => !entry.hidden)
+      .map((entry): ModelInfo => {
+        const known = findModel(catalog, entry.id);
+        return {
+          id: entry.id,
+          displayName: entry.displayName ?? known?.displayName ?? entry.id,
+          contextSize: entry.contextSize ?? known?.contextSize ?? DEFAULT_CONTEXT_SIZE,
+          supportsThinking: entry.supportsThinking ?? known?.supportsThinking ?? false,
+        };
+      });
+    if (models.length === 0) {
+      errors.push(`${where}.models must list at least one model`);
+      return;
+    }
+    profiles.push({ id, baseUrl: item.baseUrl.trim(), models });
+  });
+  return { profiles, errors };
+}
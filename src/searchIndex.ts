@@ -0,0 +1,175 @@
+// Full-text search over every conversation: message text, tool inputs and
+// outputs, and file paths. Conversations are re-indexed only when they change.
+
+import { Conversation, Message, SearchResult, SearchSource } from './protocol';
+
+/** Characters of context kept on each side of the first match in a snippet. */
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 100;
+const DEFAULT_RESULT_LIMIT = 50;
+
+interface IndexedSegment {
+  source: SearchSource;
+  text: string;
+  lower: string;
+}
+
+interface IndexedMessage {
+  messageId: string;
+  role: Message['role'];
+  timestamp: number;
+  segments: IndexedSegment[];
+  /** All segments, lowercased and joined, for the all-terms check. */
+  lower: string;
+}
+
+interface IndexedConversation {
+  version: string;
+  title: string;
+  messages: IndexedMessage[];
+}
+
+export class ConversationSearchIndex {
+  private readonly entries = new Map<string, IndexedConversation>();
+
+  /**
+   * Bring the index in line with the given conversations. Conversations in
+   * alwaysReindex (e.g. streaming ones, whose blocks change in place) are
+   * rebuilt even when their version looks unchanged.
+   */
+  sync(conversations: Conversation[], alwaysReindex: Set<string> = new Set()): void {
+    const live = new Set<string>();
+    for (const conversation of conversations) {
+      live.add(conversation.id);
+      const version = `${conversation.updatedAt}:${conversation.messages.length}`;
+      const existing = this.entries.get(conversation.id);
+      if (existing && existing.version === version && !alwaysReindex.has(conversation.id)) {
+        existing.title = conversation.title;
+        continue;
+      }
+      this.entries.set(conversation.id, {
+        version,
+        title: conversation.title,
+        messages: conversation.messages.map(indexMessage),
+      });
+    }
+
+    for (const id of [...this.entries.keys()]) {
+      if (!live.has(id)) {
+        this.entries.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Messages containing every whitespace-separated term of the query
+   * (case-insensitive), newest first.
+   */
+  search(query: string, limit = DEFAULT_RESULT_LIMIT): SearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const [conversationId, conversation] of this.entries) {
+      for (const message of conversation.messages) {
+        if (!terms.every(term => message.lower.includes(term))) {
+          continue;
+        }
+        const segment = message.segments.find(s => s.lower.includes(terms[0]))
+          ?? message.segments.find(s => terms.some(term => s.lower.includes(term)));
+        if (!segment) {
+          continue;
+        }
+        results.push({
+          conversationId,
+          conversationTitle: conversation.title,
+          messageId: message.messageId,
+          role: message.role,
+          source: segment.source,
+          timestamp: message.timestamp,
+          ...buildSnippet(segment, terms),
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+}
+
+function indexMessage(message: Message): IndexedMessage {
+  const segments: IndexedSegment[] = [];
+  const add = (source: SearchSource, text: string | undefined) => {
+    if (text && text.trim()) {
+      segments.push({ source, text, lower: text.toLowerCase() });
+    }
+  };
+
+  for (const file of message.attachedFiles) {
+    add('file', file.path);
+  }
+
+  if (message.role === 'user') {
+    add('message', message.content);
+  } else {
+    for (const block of message.blocks) {
+      switch (block.type) {
+        case 'text':
+        case 'thinking':
+        case 'code':
+          add('message', block.content);
+          break;
+        case 'tool':
+          for (const [key, value] of Object.entries(block.input)) {
+            const text = typeof value === 'string' ? value : JSON.stringify(value);
+            add(key === 'file_path' || key === 'path' ? 'file' : 'tool', text);
+          }
+          add('tool', block.output);
+          break;
+        case 'file_ref':
+          add('file', block.path);
+          break;
+        case 'plan':
+          add('message', block.entries.map(e => e.content).join('\n'));
+          break;
+        case 'error':
+        case 'warning':
+          add('message', block.message);
+          break;
+      }
+    }
+  }
+
+  return {
+    messageId: message.id,
+    role: message.role,
+    timestamp: message.timestamp,
+    segments,
+    lower: segments.map(s => s.lower).join('\n'),
+  };
+}
+
+/** Single-line excerpt around the first match, with match ranges relative to the snippet. */
+function buildSnippet(segment: IndexedSegment, terms: string[]): Pick<SearchResult, 'snippet' | 'matches'> {
+  const first = Math.min(...terms.map(t => segment.lower.indexOf(t)).filter(i => i >= 0));
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(segment.text.length, first + SNIPPET_AFTER);
+  const snippet = (start > 0 ? '…' : '')
+    + segment.text.slice(start, end).replace(/\s+/g, ' ')
+    + (end < segment.text.length ? '…' : '');
+
+  const lower = snippet.toLowerCase();
+  const matches: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      matches.push([index, term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+  return { snippet, matches };
+}
@@ -0,0 +1,157 @@
+// Secret redaction for content that leaves the editor in a prompt: attached
+// files, the editor selection, replayed conversation history. Known key formats, private keys, values in
+// .env files and patterns from iflow.redactionPatterns are masked.
+
+import * as path from 'path';
+
+export interface SecretPattern {
+  name: string;
+  regex: RegExp;
+  /** Capture group holding the secret; the rest of the match is kept. Defaults to the whole match. */
+  group?: number;
+}
+
+/** What was masked in one piece of content. */
+export interface RedactionFinding {
+  /** Where the content came from (a file path, or "selection"). */
+  source: string;
+  name: string;
+  count: number;
+}
+
+export const BUILTIN_SECRET_PATTERNS: readonly SecretPattern[] = [
+  { name: 'private key', regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'AWS access key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'API key', regex: /\bsk-[A-Za-z0-9_-]{20,}\b/g },
+  {
+    // A quoted literal with letters and digits assigned to a secret-like name:
+    // `password = "hunter2hunter2"`, not `secret = process.env.SECRET`
+    name: 'credential',
+    regex: /\b(?:[\w-]*[_-])?(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)[\w-]*["']?\s*[:=]\s*(["'`])((?=[^"'`\s]*\d)(?=[^"'`\s]*[A-Za-z])[^"'`\s]{8,})\1/gi,
+    group: 2,
+  },
+];
+
+/** `KEY=value` lines of a dotenv file; the value is group 1. */
+const ENV_VALUE: SecretPattern = { name: '.env value', regex: /^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.]*\s*=\s*(\S.*?)\s*$/gm, group: 1 };
+
+/** `key: value` / `key = value` lines of a config file with a secret-like key; the value may be unquoted. */
+const CONFIG_CREDENTIAL: SecretPattern = {
+  name: 'credential',
+  regex: /^\s*["']?[\w.@/:-]*?(?:api[_-]?key|secret|token|password|passwd|access[_-]?key)[\w.-]*["']?\s*[:=]\s*["']?([^\s"'`,;${}][^\s"'`,;]{7,})/gim,
+  group: 1,
+};
+
+const CONFIG_EXTENSIONS = new Set(['.json', '.jsonc', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.conf', '.properties']);
+const CONFIG_FILES = new Set(['.npmrc', '.yarnrc', '.pypirc', '.netrc', '.git-credentials']);
+
+export function isEnvFile(filePath: string): boolean {
+  const base = path.basename(filePath).toLowerCase();
+  return base === '.env' || base.startsWith('.env.') || base.endsWith('.env');
+}
+
+function isConfigFile(filePath: string): boolean {
+  const base = path.basename(filePath).toLowerCase();
+  return CONFIG_FILES.has(base) || CONFIG_EXTENSIONS.has(path.extname(base));
+}
+
+/**
+ * Validate the iflow.redactionPatterns setting: regex strings, or objects with
+ * `pattern` and an optional `name`. Patterns match case-sensitively across lines.
+ */
+export function parseRedactionPatterns(value: unknown): { patterns: SecretPattern[]; errors: string[] } {
+  const patterns: SecretPattern[] = [];
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { patterns, errors };
+  }
+  if (!Array.isArray(value)) {
+    return { patterns, errors: ['iflow.redactionPatterns must be an array'] };
+  }
+
+  value.forEach((item, i) => {
+    const where = `iflow.redactionPatterns[${i}]`;
+    const source = typeof item === 'string' ? item : item?.pattern;
+    if (typeof source !== 'string' || !source) {
+      errors.push(`${where} must be a regular expression string or an object with a "pattern" string`);
+      return;
+    }
+    const name = typeof item === 'object' && typeof item.name === 'string' && item.name.trim() ? item.name.trim() : 'custom pattern';
+    try {
+      const regex = new RegExp(source, 'gm');
+      if (regex.test('')) {
+        errors.push(`${where} matches empty text`);
+        return;
+      }
+      patterns.push({ name, regex });
+    } catch (error) {
+      errors.push(`${where} is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return { patterns, errors };
+}
+
+function mask(name: string): string {
+  return `[REDACTED ${name}]`;
+}
+
+/**
+ * Mask the secrets in one piece of content. Patterns run in order, so text a
+ * pattern masked is not counted again by a later one. In source code only
+ * quoted literals count as credentials; config files also have unquoted ones.
+ */
+export function redactSecrets(
+  text: string,
+  source: string,
+  patterns: readonly SecretPattern[]
+): { text: string; findings: RedactionFinding[] } {
+  const all = [...patterns];
+  if (isEnvFile(source)) {
+    all.push(ENV_VALUE);
+  } else if (isConfigFile(source)) {
+    all.push(CONFIG_CREDENTIAL);
+  }
+  const findings: RedactionFinding[] = [];
+  let result = text;
+
+  for (const pattern of all) {
+    let count = 0;
+    // 'd' gives each group's offsets, so only the group is masked, not the same text in the key
+    const flags = ['g', 'd'].reduce((f, flag) => (f.includes(flag) ? f : f + flag), pattern.regex.flags);
+    let masked = '';
+    let last = 0;
+    for (const match of result.matchAll(new RegExp(pattern.regex.source, flags))) {
+      const group = pattern.group ?? 0;
+      const secret = match[group];
+      const span = match.indices?.[group];
+      if (!secret || !span || secret.startsWith('[REDACTED')) {
+        continue;
+      }
+      masked += result.slice(last, span[0]) + mask(pattern.name);
+      last = span[1];
+      count++;
+    }
+    result = masked + result.slice(last);
+    const existing = findings.find(f => f.name === pattern.name);
+    if (existing) {
+      existing.count += count;
+    } else if (count > 0) {
+      findings.push({ source, name: pattern.name, count });
+    }
+  }
+  return { text: result, findings };
+}
+
+/** Warning shown in the conversation, e.g. "Redacted before sending: .env (3 .env values), selection (1 API key)". */
+export function formatRedactionWarning(findings: readonly RedactionFinding[]): string {
+  const bySource = new Map<string, string[]>();
+  for (const finding of findings) {
+    const label = `${finding.count} ${finding.name}${finding.count === 1 || finding.name.endsWith('s') ? '' : 's'}`;
+    bySource.set(finding.source, [...(bySource.get(finding.source) ?? []), label]);
+  }
+  const parts = [...bySource].map(([source, labels]) => `${source} (${labels.join(', ')})`);
+  return `Redacted secrets before sending: ${parts.join('; ')}`;
+}
@@ -0,0 +1,1302 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversationStore } from './store';
+import { ConversationStorage } from './conversationStorage';
+import { ExportFormat, toJson, toMarkdown, toHtmlDocument, suggestExportFileName } from './conversationExport';
+import { parseImportedConversation } from './conversationImport';
+import { ConversationSearchIndex } from './searchIndex';
+import { buildModelCatalog, parseModelSettings } from './modelCatalog';
+import { ProviderCredentials, parseProviderSettings } from './providerProfiles';
+import { CredentialStore, LaunchCredentials } from './credentials';
+import { ClientPool } from './clientPool';
+import { AuthService } from './authService';
+import { EditReviewTracker, openEditDiff, applyHunkDecision } from './editReview';
+import { AuditEvent, AuditLog, filterAuditEntries } from './auditLog';
+import { SessionView, findHtmlRenderer } from './sessionView';
+import { InteractionChunk, InteractionQueue, isInteractionChunk } from './interactionQueue';
+import { ruleFromApproval } from './permissionRules';
+import { parseRedactionPatterns } from './secretRedaction';
+import { addPermissionRule, validatePermissionRuleSettings } from './permissionSettings';
+import { CheckpointBlobStore, CheckpointRecorder, mergeCheckpoints, restoreCheckpoints } from './checkpoints';
+import { WebviewMessage, ExtensionMessage, AttachedFile, IDEContext, Conversation, ConversationState, SearchResult, ModelType, ModelInfo, StreamChunk, ConversationMode } from './protocol';
+
+const CLI_CHECK_SUCCESS_TTL_MS = 2 * 60 * 1000;
+const CLI_CHECK_FAILURE_TTL_MS = 15 * 1000;
+const EXPORT_RENDER_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_AUTO_COMPACT_THRESHOLD = 80;
+
+const COMPACT_PROMPT = 'Summarize our conversation so far for a fresh session that will continue this work. '
+  + 'Cover the goals and requests, decisions made, files created or changed (with paths), important code details, '
+  + 'commands run and their outcomes, open problems and the next steps. '
+  + 'Do not call any tools; reply with the summary only.';
+
+interface CliAvailabilityResult {
+  version: string | null;
+  diagnostics: string;
+}
+
+/** State of the run in progress for one conversation. */
+interface RunState {
+  editReviewTracker: EditReviewTracker;
+  checkpointRecorder: CheckpointRecorder;
+  planApprovedMode: 'smart' | 'default' | null;
+  planFeedbackText: string | null;
+  /**
+   * Reasons given when rejecting tool calls, sent to the agent as a follow-up
+   * message when the turn ends: an ACP permission response has no field for it.
+   */
+  rejectionFeedbackText: string | null;
+}
+
+/**
+ * Extension-wide conversation session: owns the single ConversationStore, the
+ * CLI client pool and auth, and fans every update out to all attached webviews
+ * (the editor panel and both sidebars), so they always show the same state.
+ */
+export class IFlowSession {
+  private readonly store: ConversationStore;
+  private readonly clients: ClientPool;
+  private readonly authService: AuthService;
+  private readonly runStates = new Map<string, RunState>();
+  /** Approvals and questions awaiting an answer, replayed to views that attach mid-run. */
+  private readonly interactions = new InteractionQueue();
+  private readonly views = new Set<SessionView>();
+  private readonly searchIndex = new ConversationSearchIndex();
+  private readonly disposables: vscode.Disposable[] = [];
+  /** HTML export bodies requested from a webview, keyed by request id. */
+  private readonly pendingExportRenders = new Map<number, (html: string) => void>();
+  private nextExportRequestId = 1;
+  /** Models listed by the CLI in its last session/new result. */
+  private cliModels: ModelInfo[] = [];
+  private cliCheckCache: { result: CliAvailabilityResult; checkedAt: number } | null = null;
+  private cliCheckInFlight: Promise<CliAvailabilityResult> | null = null;
+  private cliChecked = false;
+  /** Moving plaintext credentials into SecretStorage; awaited before the CLI is launched. */
+  private readonly credentialMigration: Promise<void>;
+
+  constructor(
+    private readonly extensionUri: vscode.Uri,
+    storage: ConversationStorage,
+    private readonly credentials: CredentialStore,
+    private readonly auditLog: AuditLog,
+    private readonly checkpointStore: CheckpointBlobStore
+  ) {
+    this.authService = new AuthService(credentials);
+    this.store = new ConversationStore(storage, (state) => {
+      this.broadcast({ type: 'stateUpdated', state });
+    });
+    // Conversations only keep hashes; content no conversation refers to any more is deleted
+    this.store.migrateInlineCheckpoints((content) => checkpointStore.put(content));
+    void checkpointStore.prune(this.store.getCheckpointBlobs());
+    this.clients = new ClientPool(
+      (id) => this.store.isConversationStreaming(id),
+      (models) => this.setCliModels(models)
+    );
+    this.credentialMigration = this.migrateCredentials();
+    this.applyRetentionSettings();
+    this.applyModelSettings();
+    this.disposables.push(this.credentials.onDidChange((key) => {
+      if (key.startsWith('iflow.provider.')) {
+        void this.loadProviderProfiles();
+      } else {
+        void this.refreshAccount();
+      }
+    }));
+    void this.credentialMigration.then(() => {
+      this.authService.scheduleRefresh();
+      return this.refreshAccount();
+    });
+
+    // Re-check CLI availability when relevant settings change
+    this.disposables.push(vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (e.affectsConfiguration('iflow.nodePath') ||
+          e.affectsConfiguration('iflow.baseUrl') ||
+          e.affectsConfiguration('iflow.port') ||
+          e.affectsConfiguration('iflow.timeout')) {
+        await this.clients.disposeAll();
+        this.invalidateCliCheck();
+        this.cliChecked = false;
+        await this.checkCliAvailability(true);
+      }
+      if (e.affectsConfiguration('iflow.maxConversations') ||
+          e.affectsConfiguration('iflow.conversationRetentionDays')) {
+        this.applyRetentionSettings();
+      }
+      if (e.affectsConfiguration('iflow.models')) {
+        this.applyModelSettings();
+      }
+      if (e.affectsConfiguration('iflow.providers')) {
+        void this.loadProviderProfiles();
+      }
+      if (e.affectsConfiguration('iflow.permissionRules')) {
+        validatePermissionRuleSettings();
+      }
+      if (e.affectsConfiguration('iflow.redactionPatterns')) {
+        const { errors } = parseRedactionPatterns(vscode.workspace.getConfiguration('iflow').get<unknown>('redactionPatterns'));
+        if (errors.length > 0) {
+          vscode.window.showWarningMessage(`iFlow: Ignoring invalid redaction patterns: ${errors.join('; ')}`);
+        }
+      }
+    }));
+
+    // Initialize workspace folders and track changes
+    this.syncWorkspaceFolders();
+    this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      this.syncWorkspaceFolders();
+    }));
+  }
+
+  // ── Views ───────────────────────────────────────────────────────────
+
+  /** Attach a webview; it receives all broadcasts until the returned disposable is disposed. */
+  attach(view: SessionView): vscode.Disposable {
+    this.views.add(view);
+    return new vscode.Disposable(() => {
+      this.views.delete(view);
+    });
+  }
+
+  getState(): ConversationState {
+    return this.store.getState();
+  }
+
+  getStore(): ConversationStore {
+    return this.store;
+  }
+
+  /** Full-text search across all conversations; the index is refreshed lazily. */
+  searchConversations(query: string): SearchResult[] {
+    const state = this.store.getState();
+    this.searchIndex.sync(state.conversations, new Set(state.streamingConversationIds));
+    return this.searchIndex.search(query);
+  }
+
+  private broadcast(message: ExtensionMessage): void {
+    for (const view of this.views) {
+      view.postMessage(message);
+    }
+  }
+
+  /** Approvals and questions still waiting for an answer, oldest first per conversation. */
+  getPendingInteractions(): Array<{ conversationId: string; chunk: InteractionChunk }> {
+    return this.interactions.entries();
+  }
+
+  /** Tell every view that a pending approval/question was answered (possibly from another view). */
+  private resolveInteraction(conversationId: string, requestId: number): void {
+    this.interactions.remove(conversationId, requestId);
+    this.broadcast({ type: 'interactionResolved', conversationId, requestId });
+  }
+
+  // ── Webview messages ────────────────────────────────────────────────
+
+  /** Handle a conversation-level message from any attached webview. */
+  async handleMessage(message: WebviewMessage): Promise<void> {
+    switch (message.type) {
+      case 'recheckCli':
+        // Fresh clients start with empty auto-detect caches
+        await this.clients.disposeAll();
+        this.invalidateCliCheck();
+        this.cliChecked = false;
+        await this.checkCliAvailability(true);
+        break;
+
+      case 'newConversation': {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const folder = activeUri?.scheme === 'file'
+          ? vscode.workspace.getWorkspaceFolder(activeUri)
+          : undefined;
+        this.store.newConversation(folder?.uri.fsPath);
+        break;
+      }
+
+      case 'switchConversation':
+        this.store.switchConversation(message.conversationId);
+        break;
+
+      case 'deleteConversation':
+        if (this.store.isConversationStreaming(message.conversationId)) {
+          await this.clients.get(message.conversationId)?.cancel();
+        }
+        this.store.deleteConversation(message.conversationId);
+        this.runStates.delete(message.conversationId);
+        await this.clients.release(message.conversationId);
+        break;
+
+      case 'clearConversation':
+        this.store.clearCurrentConversation();
+        break;
+
+      case 'setMode':
+        this.store.setMode(message.mode);
+        break;
+
+      case 'setThink':
+        this.store.setThink(message.enabled);
+        break;
+
+      case 'setModel':
+        if (this.store.getModel(message.model)) {
+          this.store.setModel(message.model);
+        } else {
+          vscode.window.showWarningMessage(`iFlow: Unknown model "${message.model}".`);
+        }
+        break;
+
+      case 'setProvider':
+        if (message.providerId === null || this.store.getProvider(message.providerId)) {
+          this.store.setProvider(message.providerId);
+        }
+        break;
+
+      case 'setWorkspaceFolder':
+        this.store.setConversationWorkspaceFolder(message.uri);
+        break;
+
+      case 'sendMessage':
+        await this.handleSendMessage(message.content, message.attachedFiles, false, message.ideContext);
+        break;
+
+      case 'openToolDiff':
+        await this.handleOpenToolDiff(message.messageId, message.blockIndex);
+        break;
+
+      case 'reviewHunk':
+        await this.handleReviewHunk(message.messageId, message.blockIndex, message.hunkIndex, message.decision);
+        break;
+
+      case 'rewindToMessage':
+        await this.handleRewindToMessage(message.messageId);
+        break;
+
+      case 'editMessage':
+        await this.handleEditMessage(message.messageId, message.content);
+        break;
+
+      case 'switchBranch':
+        if (this.store.getState().isStreaming) {
+          vscode.window.showWarningMessage('iFlow: Stop the current response before switching branches.');
+          break;
+        }
+        this.store.switchBranch(message.messageId, message.branchIndex);
+        break;
+
+      case 'regenerateResponse':
+        await this.handleRegenerate(message.messageId, message.model);
+        break;
+
+      case 'compactConversation': {
+        const conversationId = this.store.getState().currentConversationId;
+        if (conversationId) {
+          await this.compactConversation(conversationId, true);
+        }
+        break;
+      }
+
+      case 'exportConversation':
+        await this.exportConversation(message.conversationId);
+        break;
+
+      case 'exportHtmlRendered':
+        this.pendingExportRenders.get(message.requestId)?.(message.html);
+        this.pendingExportRenders.delete(message.requestId);
+        break;
+
+      case 'toolApproval': {
+        this.resolveInteraction(message.conversationId, message.requestId);
+        const client = this.clients.get(message.conversationId);
+        if (!client) {
+          break;
+        }
+        if (message.outcome === 'reject' && message.feedback?.trim()) {
+          // Decline only this call; the CLI cannot take the reason with the
+          // rejection, so it follows as a message once the turn ends
+          const runState = this.getRunState(message.conversationId);
+          const feedback = message.feedback.trim();
+          runState.rejectionFeedbackText = runState.rejectionFeedbackText ? `${runState.rejectionFeedbackText}\n\n${feedback}` : feedback;
+          await client.rejectToolCall(message.requestId, true);
+          const notice: StreamChunk = {
+            chunkType: 'warning',
+            message: 'Tool call declined. Your reason will be sent to iFlow when the current turn ends.',
+          };
+          this.store.appendToAssistantMessage(message.conversationId, notice);
+          this.broadcast({ type: 'streamChunk', conversationId: message.conversationId, chunk: notice });
+        } else if (message.outcome === 'reject') {
+          await client.rejectToolCall(message.requestId);
+          // Terminate the entire conversation, equivalent to pressing stop
+          await client.cancel();
+          this.interactions.clear(message.conversationId);
+          this.store.batchUpdate(() => {
+            this.store.endAssistantMessage(message.conversationId);
+            this.store.setStreaming(message.conversationId, false);
+          });
+        } else {
+          const request = client.getPermissionRequest(message.requestId);
+          // Commands with no safe rule to save are only allowed once
+          const rule = request ? ruleFromApproval(request) : null;
+          const outcome = message.outcome === 'alwaysAllow' && !rule ? 'allow' : message.outcome;
+          await client.approveToolCall(message.requestId, outcome);
+          const conversation = this.store.getConversation(message.conversationId);
+          if (outcome === 'alwaysAllow' && rule && conversation) {
+            await addPermissionRule(rule, this.resolveWorkspaceFolder(conversation));
+          }
+        }
+        break;
+      }
+
+      case 'toolApprovalAll': {
+        // Allow the request and every queued one for the same tool and kind
+        const client = this.clients.get(message.conversationId);
+        for (const chunk of this.interactions.sameKind(message.conversationId, message.requestId)) {
+          this.resolveInteraction(message.conversationId, chunk.requestId);
+          await client?.approveToolCall(chunk.requestId, 'allow');
+        }
+        break;
+      }
+
+      case 'questionAnswer':
+        this.resolveInteraction(message.conversationId, message.requestId);
+        await this.clients.get(message.conversationId)?.answerQuestions(message.requestId, message.answers);
+        break;
+
+      case 'planApproval': {
+        this.resolveInteraction(message.conversationId, message.requestId);
+        const isApproved = message.option === 'smart' || message.option === 'default';
+        const runState = this.getRunState(message.conversationId);
+        if (message.requestId === -1) {
+          // Synthetic approval: AI ended without calling exit_plan_mode.
+          if (isApproved) {
+            this.store.setMode(message.option as 'smart' | 'default', message.conversationId);
+          } else if (message.option === 'feedback' && message.feedback) {
+            runState.planFeedbackText = message.feedback;
+          }
+        } else {
+          if (isApproved) {
+            runState.planApprovedMode = message.option as 'smart' | 'default';
+          } else if (message.option === 'feedback' && message.feedback) {
+            runState.planFeedbackText = message.feedback;
+          }
+          await this.clients.get(message.conversationId)?.approvePlan(message.requestId, isApproved);
+        }
+        break;
+      }
+
+      case 'cancelCurrent': {
+        const conversationId = this.store.getState().currentConversationId;
+        if (!conversationId) {
+          break;
+        }
+        await this.clients.get(conversationId)?.cancel();
+        this.interactions.clear(conversationId);
+        this.store.setStreaming(conversationId, false);
+        this.store.endAssistantMessage(conversationId);
+        break;
+      }
+
+      case 'startAuth':
+        await this.login();
+        break;
+
+      case 'logout':
+        await this.logout();
+        break;
+    }
+  }
+
+  private invalidateCliCheck(): void {
+    this.cliCheckCache = null;
+    this.cliCheckInFlight = null;
+  }
+
+  private isCliCheckFresh(): boolean {
+    if (!this.cliCheckCache) {
+      return false;
+    }
+
+    const ttl = this.cliCheckCache.result.version !== null
+      ? CLI_CHECK_SUCCESS_TTL_MS
+      : CLI_CHECK_FAILURE_TTL_MS;
+    return Date.now() - this.cliCheckCache.checkedAt < ttl;
+  }
+
+  private async getCliAvailability(forceRefresh = false): Promise<CliAvailabilityResult> {
+    if (forceRefresh) {
+      this.invalidateCliCheck();
+    }
+
+    if (this.isCliCheckFresh() && this.cliCheckCache) {
+      return this.cliCheckCache.result;
+    }
+
+    if (this.cliCheckInFlight) {
+      return this.cliCheckInFlight;
+    }
+
+    this.cliCheckInFlight = this.getLaunchCredentials()
+      .then((credentials) => this.clients.getSpare().checkAvailability(credentials))
+      .then((result) => {
+        this.cliCheckCache = { result, checkedAt: Date.now() };
+        return result;
+      })
+      .finally(() => {
+        this.cliCheckInFlight = null;
+      });
+
+    return this.cliCheckInFlight;
+  }
+
+  private async checkCliAvailability(forceRefresh = false): Promise<void> {
+    const result = await this.getCliAvailability(forceRefresh);
+    this.store.setCliStatus(result.version !== null, result.version, result.diagnostics);
+  }
+
+  // ── Account ─────────────────────────────────────────────────────────
+
+  async login(): Promise<void> {
+    try {
+      await this.authService.startLogin();
+      vscode.window.showInformationMessage('iFlow: Login successful');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`iFlow login failed: ${msg}`);
+    }
+    await this.refreshAccount();
+  }
+
+  async logout(): Promise<void> {
+    if (!(await this.authService.isLoggedIn())) {
+      vscode.window.showInformationMessage('iFlow: Not logged in.');
+      return;
+    }
+    await this.authService.logout();
+    await this.refreshAccount();
+    vscode.window.showInformationMessage('iFlow: Logged out');
+  }
+
+  private async refreshAccount(): Promise<void> {
+    this.store.setAccount(await this.authService.getAccountInfo());
+  }
+
+  private async handleOpenToolDiff(messageId: string, blockIndex: number): Promise<void> {
+    const review = this.store.getToolBlock(messageId, blockIndex)?.review;
+    if (!review) {
+      return;
+    }
+    try {
+      await openEditDiff(review, `${messageId}:${blockIndex}`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`iFlow: Failed to open diff: ${msg}`);
+    }
+  }
+
+  private async handleReviewHunk(
+    messageId: string,
+    blockIndex: number,
+    hunkIndex: number,
+    decision: 'accepted' | 'reverted'
+  ): Promise<void> {
+    const review = this.store.getToolBlock(messageId, blockIndex)?.review;
+    if (!review) {
+      return;
+    }
+    try {
+      const hunks = await applyHunkDecision(review, hunkIndex, decision, `${messageId}:${blockIndex}`);
+      this.store.setToolReview(messageId, blockIndex, { ...review, hunks });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`iFlow: Failed to revert change: ${msg}`);
+    }
+  }
+
+  private async handleRewindToMessage(messageId: string): Promise<void> {
+    if (this.store.getState().isStreaming) {
+      vscode.window.showWarningMessage('iFlow: Stop the current response before rewinding.');
+      return;
+    }
+    const checkpoints = this.store.getRewindCheckpoints(messageId);
+    if (!checkpoints) {
+      return;
+    }
+
+    const files = mergeCheckpoints(checkpoints);
+    const fileCount = files.length;
+    const skipped = new Set(checkpoints.flatMap(c => c.skipped ?? []).filter(p => !files.some(f => f.path === p)));
+    let detail = fileCount > 0
+      ? `${fileCount} file${fileCount === 1 ? '' : 's'} changed by later turns will be restored, and later messages will be removed.`
+      : 'Later messages will be removed. No file changes need to be restored.';
+    if (skipped.size > 0) {
+      detail += ` ${[...skipped].map(p => path.basename(p)).join(', ')} did not fit in the checkpoint storage and will stay as they are.`;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      'Rewind the conversation to this point?',
+      { modal: true, detail },
+      'Rewind'
+    );
+    if (choice !== 'Rewind') {
+      return;
+    }
+
+    const failed = await restoreCheckpoints(checkpoints, this.checkpointStore);
+    this.store.rewindToMessage(messageId);
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(`iFlow: Failed to restore ${failed.map(f => path.basename(f)).join(', ')}`);
+    }
+  }
+
+  /** Resend an edited prompt as a new branch; the original turns stay reachable as a sibling. */
+  private async handleEditMessage(messageId: string, content: string): Promise<void> {
+    if (this.store.getState().isStreaming) {
+      vscode.window.showWarningMessage('iFlow: Stop the current response before editing a message.');
+      return;
+    }
+    const conversationId = this.store.getState().currentConversationId;
+    const message = content.trim() ? this.store.editUserMessage(messageId, content) : null;
+    if (!conversationId || !message) {
+      return;
+    }
+    await this.handleSendMessage(content, message.attachedFiles, true, undefined, conversationId);
+  }
+
+  /**
+   * Re-run the prompt of the last answer, optionally with another model. The
+   * loaded CLI session already contains the old answer and cannot drop a
+   * turn, so the new branch starts a fresh session with the earlier turns
+   * replayed (see ConversationStore.editUserMessage).
+   */
+  private async handleRegenerate(messageId: string, model?: ModelType): Promise<void> {
+    if (this.store.getState().isStreaming) {
+      vscode.window.showWarningMessage('iFlow: Stop the current response before regenerating.');
+      return;
+    }
+    const conversationId = this.store.getState().currentConversationId;
+    const validModel = model && this.store.getModel(model) ? model : undefined;
+    const prompt = this.store.branchForRegenerate(messageId);
+    if (!conversationId || !prompt) {
+      return;
+    }
+    await this.handleSendMessage(prompt.content, prompt.attachedFiles, true, undefined, conversationId, validModel);
+  }
+
+  // ── Credentials ─────────────────────────────────────────────────────
+
+  /** Ask for the iFlow API key and keep it in SecretStorage; an empty key removes it. */
+  async setApiKey(): Promise<void> {
+    const apiKey = await vscode.window.showInputBox({
+      title: 'iFlow API key',
+      prompt: 'Stored in VS Code secret storage and passed to the CLI when it starts. Leave empty to remove the key.',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (apiKey === undefined) {
+      return;
+    }
+    if (apiKey.trim()) {
+      await this.credentials.setApiKey(apiKey.trim());
+    } else {
+      await this.credentials.clearApiKey();
+    }
+  }
+
+  /** Let the user pick stored credentials (API key, login, provider keys) to delete. */
+  async clearCredentials(): Promise<void> {
+    const items: Array<vscode.QuickPickItem & { clear: () => Promise<void> }> = [];
+    if (await this.credentials.getApiKey()) {
+      items.push({ label: 'API key', clear: () => this.credentials.clearApiKey() });
+    }
+    const oauth = await this.credentials.getOAuthCredentials();
+    if (oauth) {
+      items.push({ label: 'iFlow login', description: oauth.userName || oauth.email, clear: () => this.authService.logout() });
+    }
+    for (const provider of this.store.getState().providers) {
+      if (provider.hasApiKey) {
+        items.push({ label: `Provider: ${provider.id}`, description: provider.baseUrl, clear: () => this.credentials.clearProviderApiKey(provider.id) });
+      }
+    }
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('iFlow: No credentials are stored.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(items, { title: 'Clear stored credentials', canPickMany: true });
+    if (!picked || picked.length === 0) {
+      return;
+    }
+    for (const item of picked) {
+      await item.clear();
+    }
+  }
+
+  /** Credentials to inject into a CLI launch, once plaintext ones have been migrated. */
+  private async getLaunchCredentials(provider?: ProviderCredentials): Promise<LaunchCredentials> {
+    await this.credentialMigration;
+    return this.credentials.getLaunchCredentials(provider);
+  }
+
+  private async migrateCredentials(): Promise<void> {
+    const sources: string[] = [];
+    try {
+      if (await this.credentials.migrateApiKeySetting()) {
+        sources.push('the iflow.apiKey setting');
+      }
+      if (await this.authService.migrateLegacyCredentials()) {
+        sources.push('the iFlow CLI login');
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showWarningMessage(`iFlow: Could not move credentials to secret storage: ${msg}`);
+      return;
+    }
+    if (sources.length > 0) {
+      vscode.window.showInformationMessage(`iFlow: Copied credentials from ${sources.join(' and ')} to VS Code secret storage.`);
+    }
+  }
+
+  // ── Provider profiles ───────────────────────────────────────────────
+
+  /** Ask for a provider profile's API key and keep it in SecretStorage; an empty key removes it. */
+  async setProviderApiKey(): Promise<void> {
+    const providers = this.store.getState().providers;
+    if (providers.length === 0) {
+      vscode.window.showInformationMessage('iFlow: No provider profiles configured. Add them in the iflow.providers setting.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      providers.map(p => ({ label: p.id, description: p.baseUrl, detail: p.hasApiKey ? 'API key set' : 'No API key', provider: p })),
+      { title: 'Set provider API key' }
+    );
+    if (!picked) {
+      return;
+    }
+    const apiKey = await vscode.window.showInputBox({
+      title: `API key for ${picked.provider.id}`,
+      prompt: 'Stored in VS Code secret storage. Leave empty to remove the key.',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (apiKey === undefined) {
+      return;
+    }
+    if (apiKey.trim()) {
+      await this.credentials.setProviderApiKey(picked.provider.id, apiKey.trim());
+    } else {
+      await this.credentials.clearProviderApiKey(picked.provider.id);
+    }
+  }
+
+  private async loadProviderProfiles(): Promise<void> {
+    const { profiles, errors } = parseProviderSettings(
+      vscode.workspace.getConfiguration('iflow').get<unknown>('providers'),
+      this.store.getState().models
+    );
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`iFlow: Ignoring invalid provider settings: ${errors.join('; ')}`);
+    }
+    const providers = await Promise.all(profiles.map(async (profile) => ({
+      ...profile,
+      hasApiKey: !!(await this.credentials.getProviderApiKey(profile.id)),
+    })));
+    this.store.setProviders(providers);
+  }
+
+  /** Credentials for the conversation's provider profile, or an error to show instead of running. */
+  private async resolveProvider(conversation: Conversation): Promise<{ credentials?: ProviderCredentials; error?: string }> {
+    if (!conversation.providerId) {
+      return {};
+    }
+    const provider = this.store.getProvider(conversation.providerId);
+    if (!provider) {
+      return { error: `Provider "${conversation.providerId}" is no longer configured. Pick another provider for this conversation.` };
+    }
+    const apiKey = await this.credentials.getProviderApiKey(provider.id);
+    if (!apiKey) {
+      return { error: `No API key set for provider "${provider.id}". Run "IFlow: Set Provider API Key" first.` };
+    }
+    return { credentials: { id: provider.id, baseUrl: provider.baseUrl, apiKey } };
+  }
+
+  // ── Export ──────────────────────────────────────────────────────────
+
+  /**
+   * Export a conversation (the current one by default) to a file chosen by
+   * the user, as Markdown, JSON or standalone HTML.
+   */
+  async exportConversation(conversationId?: string): Promise<void> {
+    const conversation = conversationId
+      ? this.store.getConversation(conversationId)
+      : this.store.getCurrentConversation();
+    if (!conversation || conversation.messages.length === 0) {
+      vscode.window.showWarningMessage('iFlow: There is no conversation to export.');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'Markdown', description: 'Readable transcript for reviews and docs', format: 'markdown' as ExportFormat },
+        { label: 'JSON', description: 'Versioned format that can be imported again', format: 'json' as ExportFormat },
+        { label: 'HTML', description: 'Standalone page rendered like the chat view', format: 'html' as ExportFormat },
+      ],
+      { placeHolder: `Export "${conversation.title}" as` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const folder = conversation.workspaceFolderUri ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const fileName = suggestExportFileName(conversation, picked.format);
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.file(path.join(folder, fileName)) : undefined,
+      filters: { [picked.label]: [fileName.split('.').pop() ?? ''] },
+    });
+    if (!target) {
+      return;
+    }
+
+    try {
+      let content: string;
+      switch (picked.format) {
+        case 'markdown':
+          content = toMarkdown(conversation);
+          break;
+        case 'json':
+          content = toJson(conversation);
+          break;
+        case 'html': {
+          const stylesheet = await vscode.workspace.fs.readFile(
+            vscode.Uri.joinPath(this.extensionUri, 'media', 'styles.css')
+          );
+          const body = await this.renderExportHtml(conversation);
+          content = toHtmlDocument(conversation, body, Buffer.from(stylesheet).toString('utf-8'));
+          break;
+        }
+      }
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+      const action = await vscode.window.showInformationMessage(
+        `iFlow: Exported conversation to ${path.basename(target.fsPath)}`,
+        'Open'
+      );
+      if (action === 'Open') {
+        await vscode.commands.executeCommand('vscode.open', target);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`iFlow: Failed to export conversation: ${msg}`);
+    }
+  }
+
+  /**
+   * Import a conversation from an exported JSON file and make it current.
+   * Its CLI session is resumed on the next message when it can be loaded
+   * here; otherwise the transcript is replayed into a fresh session.
+   */
+  async importConversation(): Promise<void> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'iFlow conversation': ['json'] },
+      openLabel: 'Import',
+    });
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    try {
+      const raw = await vscode.workspace.fs.readFile(picked[0]);
+      const imported = parseImportedConversation(Buffer.from(raw).toString('utf-8'), this.store.getState().models);
+      // The exporter's folder rarely exists here; runs resolve a local folder instead
+      const folders = this.getAllWorkspaceFolderPaths();
+      const workspaceFolderUri = imported.workspaceFolderUri && folders.includes(imported.workspaceFolderUri)
+        ? imported.workspaceFolderUri
+        : undefined;
+      const conversation = this.store.importConversation({ ...imported, workspaceFolderUri });
+      vscode.window.showInformationMessage(
+        `iFlow: Imported "${conversation.title}" (${conversation.messages.length} messages).`
+      );
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`iFlow: Failed to import conversation: ${msg}`);
+    }
+  }
+
+  /** Show legacy global history of a workspace folder added after activation. */
+  adoptConversations(conversations: Conversation[]): void {
+    this.store.adoptConversations(conversations);
+  }
+
+  /** Ask an attached webview to render the conversation body with its own renderers. */
+  private renderExportHtml(conversation: Conversation): Promise<string> {
+    // Only a chat webview can render; the usage tree is attached too
+    const view = findHtmlRenderer(this.views);
+    if (!view) {
+      return Promise.reject(new Error('open the iFlow view first, it renders the HTML export'));
+    }
+
+    const requestId = this.nextExportRequestId++;
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingExportRenders.delete(requestId);
+        reject(new Error('the iFlow view did not respond'));
+      }, EXPORT_RENDER_TIMEOUT_MS);
+      this.pendingExportRenders.set(requestId, (html) => {
+        clearTimeout(timer);
+        resolve(html);
+      });
+      view.postMessage({ type: 'renderExportHtml', requestId, conversation });
+    });
+  }
+
+  // ── Audit log ───────────────────────────────────────────────────────
+
+  /**
+   * Open the workspace's audit log: the whole file, or the entries matching a
+   * filter such as "tool:run_shell_command outcome:rejected" in a new editor.
+   */
+  async openAuditLog(): Promise<void> {
+    const query = await vscode.window.showInputBox({
+      title: 'Open Audit Log',
+      prompt: 'Filter by tool:, outcome:, event:, mode:, conversation: or any text. Leave empty for the whole log.',
+      placeHolder: 'tool:run_shell_command outcome:rejected',
+    });
+    if (query === undefined) {
+      return;
+    }
+    const entries = await this.auditLog.read();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('iFlow: The audit log is empty.');
+      return;
+    }
+    if (!query.trim()) {
+      await vscode.window.showTextDocument(vscode.Uri.file(this.auditLog.filePath), { preview: false });
+      return;
+    }
+    const matches = filterAuditEntries(entries, query);
+    if (matches.length === 0) {
+      vscode.window.showInformationMessage(`iFlow: No audit log entries match "${query.trim()}".`);
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument({
+      content: matches.map(entry => JSON.stringify(entry)).join('\n') + '\n',
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+  }
+
+  /** Sink for a run's tool calls and approval decisions; compaction runs log too. */
+  private auditSink(conversationId: string, fallbackMode: ConversationMode): (event: AuditEvent) => void {
+    return (event) => {
+      void this.auditLog.append({
+        timestamp: new Date().toISOString(),
+        conversationId,
+        mode: this.store.getConversation(conversationId)?.mode ?? fallbackMode,
+        ...event,
+      });
+    };
+  }
+
+  // ── Runs ────────────────────────────────────────────────────────────
+
+  private async getWorkspaceFileList(cwd?: string): Promise<string[]> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      return [];
+    }
+
+    const excludePattern = '**/node_modules/**,**/.git/**,**/dist/**,**/out/**';
+    const files = await vscode.workspace.findFiles('**/*', excludePattern, 200);
+
+    const rootPath = cwd ?? workspaceFolders[0].uri.fsPath;
+
+    // In multi-root, prefix files from non-active folders with folder name
+    if (workspaceFolders.length > 1) {
+      return files.map(f => {
+        const folder = vscode.workspace.getWorkspaceFolder(f);
+        if (folder && folder.uri.fsPath === rootPath) {
+          return path.relative(rootPath, f.fsPath);
+        }
+        return `[${folder?.name ?? 'unknown'}] ${path.relative(folder?.uri.fsPath ?? '', f.fsPath)}`;
+      });
+    }
+
+    return files.map(f => path.relative(rootPath, f.fsPath));
+  }
+
+  private async handleSendMessage(
+    content: string,
+    attachedFiles: AttachedFile[],
+    silent = false,
+    ideContext?: IDEContext,
+    targetConversationId?: string,
+    modelOverride?: ModelType
+  ): Promise<void> {
+    // Immediately reflect "running" in UI so Enter has instant feedback.
+    // Expensive checks (CLI probe/connect) happen after this optimistic state update.
+    let conversationId = '';
+    this.store.batchUpdate(() => {
+      const target = (targetConversationId ? this.store.getConversation(targetConversationId) : this.store.getCurrentConversation())
+        ?? this.store.newConversation();
+      conversationId = target.id;
+      if (!silent) {
+        this.store.addUserMessage(content, attachedFiles, conversationId);
+      }
+      this.store.startAssistantMessage(conversationId, modelOverride);
+      this.store.setStreaming(conversationId, true);
+    });
+
+    // Lazy check: verify CLI availability on first send (or after previous failure)
+    if (!this.cliChecked) {
+      await this.checkCliAvailability();
+      this.cliChecked = true;
+      if (!this.store.getState().cliAvailable) {
+        const error = 'IFlow SDK is not available. Please ensure iFlow CLI is installed and accessible in your PATH.';
+        this.store.batchUpdate(() => {
+          this.store.appendToAssistantMessage(conversationId, { chunkType: 'error', message: error });
+          this.store.endAssistantMessage(conversationId);
+          this.store.setStreaming(conversationId, false);
+        });
+        this.broadcast({ type: 'streamError', conversationId, error });
+        this.cliChecked = false; // retry on next send
+        return;
+      }
+    }
+
+    // Refresh OAuth token if near expiry (non-blocking: if not logged in, skip)
+    await this.authService.ensureValidToken();
+
+    const conversation = this.store.getConversation(conversationId);
+    if (!conversation) return;
+
+    // Resolve workspace folder for this conversation
+    const cwd = this.resolveWorkspaceFolder(conversation);
+    if (cwd && !conversation.workspaceFolderUri) {
+      this.store.setConversationWorkspaceFolder(cwd, conversationId);
+    }
+    const fileAllowedDirs = this.getAllWorkspaceFolderPaths();
+
+    const { credentials: provider, error: providerError } = await this.resolveProvider(conversation);
+    if (providerError) {
+      this.store.batchUpdate(() => {
+        this.store.appendToAssistantMessage(conversationId, { chunkType: 'error', message: providerError });
+        this.store.endAssistantMessage(conversationId);
+        this.store.setStreaming(conversationId, false);
+      });
+      this.broadcast({ type: 'streamError', conversationId, error: providerError });
+      return;
+    }
+
+    const workspaceFiles = await this.getWorkspaceFileList(cwd);
+
+    // Track whether the AI called exit_plan_mode during this run
+    let planApprovalEmitted = false;
+    let runSucceeded = false;
+    const runState = this.getRunState(conversationId);
+    runState.planApprovedMode = null;
+    runState.planFeedbackText = null;
+    runState.rejectionFeedbackText = null;
+    this.interactions.clear(conversationId);
+    runState.editReviewTracker.reset(cwd);
+    runState.checkpointRecorder.reset(cwd);
+
+    const credentials = await this.getLaunchCredentials(provider);
+    const client = await this.clients.acquire(conversationId);
+    await client.run(
+      {
+        prompt: content,
+        attachedFiles,
+        mode: conversation.mode,
+        // Models without thinking support reject set_think; keep the preference for other models
+        think: conversation.think && this.store.getModel(modelOverride ?? conversation.model, conversation)?.supportsThinking !== false,
+        model: modelOverride ?? conversation.model,
+        credentials,
+        workspaceFiles,
+        sessionId: conversation.sessionId,
+        history: conversation.sessionId ? undefined : conversation.seedContext,
+        fallbackHistory: conversation.sessionId ? conversation.seedContext : undefined,
+        ideContext,
+        cwd,
+        fileAllowedDirs,
+        onAudit: this.auditSink(conversationId, conversation.mode),
+      },
+      (chunk) => {
+        if (chunk.chunkType === 'plan_approval') {
+          planApprovalEmitted = true;
+        }
+        if (chunk.chunkType === 'tool_start') {
+          const captured = runState.checkpointRecorder.capture(chunk.name, chunk.input);
+          runState.editReviewTracker.beginTool(chunk.name, chunk.input, chunk.toolCallId);
+          if (captured) {
+            this.store.addCheckpointFile(conversationId, captured);
+          }
+        }
+        if (isInteractionChunk(chunk)) {
+          this.interactions.add(conversationId, chunk);
+        }
+        this.store.appendToAssistantMessage(conversationId, chunk);
+        this.broadcast({ type: 'streamChunk', conversationId, chunk });
+        if (chunk.chunkType === 'tool_end') {
+          this.attachEditReview(conversationId, runState, chunk.status, chunk.toolCallId);
+        }
+      },
+      () => {
+        runSucceeded = true;
+        // Batch: end assistant + stop streaming → single stateUpdated
+        this.store.batchUpdate(() => {
+          this.store.endAssistantMessage(conversationId);
+          this.store.setStreaming(conversationId, false);
+        });
+        this.interactions.clear(conversationId);
+        this.broadcast({ type: 'streamEnd', conversationId });
+
+        // In plan mode, if the AI ended its turn without calling exit_plan_mode,
+        // show a synthetic plan approval UI so the user can approve/reject.
+        if (conversation.mode === 'plan' && !planApprovalEmitted) {
+          const chunk: InteractionChunk = { chunkType: 'plan_approval', requestId: -1, plan: '' };
+          this.interactions.add(conversationId, chunk);
+          this.broadcast({ type: 'streamChunk', conversationId, chunk });
+        }
+      },
+      (error) => {
+        // Mark CLI as unavailable on connection errors so next send retries check
+        if (error.includes('connect') || error.includes('ECONNREFUSED') || error.includes('not found') || error.includes('not available')) {
+          this.cliCheckCache = { result: { version: null, diagnostics: error }, checkedAt: Date.now() };
+          this.store.setCliStatus(false, null, error);
+          this.cliChecked = false;
+        }
+        // Batch: append error + end assistant + stop streaming → single stateUpdated
+        this.store.batchUpdate(() => {
+          this.store.appendToAssistantMessage(conversationId, { chunkType: 'error', message: error });
+          this.store.endAssistantMessage(conversationId);
+          this.store.setStreaming(conversationId, false);
+        });
+        this.interactions.clear(conversationId);
+        this.broadcast({ type: 'streamError', conversationId, error });
+      }
+    ).then((returnedSessionId) => {
+      if (returnedSessionId) {
+        this.store.setSessionId(conversationId, returnedSessionId);
+      }
+    });
+
+    // After a plan run completes, handle the user's plan approval choice.
+    if (conversation.mode === 'plan' && runSucceeded) {
+      if (runState.planApprovedMode) {
+        // User chose "Yes, smart mode" or "Yes, manual approval" → execute
+        const targetMode = runState.planApprovedMode;
+        runState.planApprovedMode = null;
+        this.store.setMode(targetMode, conversationId);
+        await this.handleSendMessage(
+          '<system-reminder>\nPlan mode has been deactivated. The user approved the plan. You are now in execution mode. You may now freely use all tools including write_file, edit_file, run_shell_command, and other modification tools. Please proceed with the implementation.\n</system-reminder>',
+          [],
+          true,
+          undefined,
+          conversationId
+        );
+      } else if (runState.planFeedbackText) {
+        // User chose "Tell iFlow what to do instead" → send feedback in plan mode
+        const feedback = runState.planFeedbackText;
+        runState.planFeedbackText = null;
+        await this.handleSendMessage(feedback, [], false, undefined, conversationId);
+      }
+    }
+
+    // A tool call was rejected with a reason: hand it to the agent so it can try another way
+    if (runSucceeded && runState.rejectionFeedbackText) {
+      const feedback = runState.rejectionFeedbackText;
+      runState.rejectionFeedbackText = null;
+      await this.handleSendMessage(feedback, [], false, undefined, conversationId);
+      return;
+    }
+
+    // Plan runs may still await the user's approval; compact after the follow-up run instead
+    if (runSucceeded && conversation.mode !== 'plan') {
+      await this.compactConversation(conversationId, false);
+    }
+  }
+
+  // ── Compaction ──────────────────────────────────────────────────────
+
+  /**
+   * Have the model summarize the conversation into a boundary message, then
+   * continue in a fresh CLI session seeded with that summary. Runs after a turn
+   * once context usage reaches iflow.autoCompactThreshold percent of the model
+   * window, or unconditionally for the /compact command (force).
+   */
+  private async compactConversation(conversationId: string, force: boolean): Promise<void> {
+    const conversation = this.store.getConversation(conversationId);
+    if (!conversation || conversation.messages.length === 0 || this.store.isConversationStreaming(conversationId)) {
+      return;
+    }
+    if (!force) {
+      const threshold = vscode.workspace.getConfiguration('iflow').get<number>('autoCompactThreshold', DEFAULT_AUTO_COMPACT_THRESHOLD);
+      if (threshold <= 0 || this.store.getContextUsage(conversation).percent < threshold) {
+        return;
+      }
+    }
+
+    const { credentials: provider, error: providerError } = await this.resolveProvider(conversation);
+    if (providerError) {
+      if (force) {
+        vscode.window.showWarningMessage(`iFlow: Could not compact the conversation: ${providerError}`);
+      }
+      return;
+    }
+
+    let boundaryId = '';
+    this.store.batchUpdate(() => {
+      boundaryId = this.store.beginCompaction(conversationId).id;
+      this.store.setStreaming(conversationId, true);
+    });
+
+    let failure: string | null = null;
+    const credentials = await this.getLaunchCredentials(provider);
+    const client = await this.clients.acquire(conversationId);
+    await client.run(
+      {
+        prompt: COMPACT_PROMPT,
+        attachedFiles: [],
+        mode: conversation.mode,
+        think: false,
+        model: conversation.model,
+        credentials,
+        sessionId: conversation.sessionId,
+        history: conversation.sessionId ? undefined : conversation.seedContext,
+        fallbackHistory: conversation.sessionId ? conversation.seedContext : undefined,
+        cwd: this.resolveWorkspaceFolder(conversation),
+        fileAllowedDirs: this.getAllWorkspaceFolderPaths(),
+        onAudit: this.auditSink(conversationId, conversation.mode),
+      },
+      (chunk) => {
+        this.store.appendToAssistantMessage(conversationId, chunk);
+        this.broadcast({ type: 'streamChunk', conversationId, chunk });
+      },
+      () => {},
+      (error) => {
+        failure = error;
+      }
+    );
+    // The returned session id is deliberately not kept: the summary seeds a new session
+
+    // Cancelling (or deleting the conversation) already stopped streaming
+    const cancelled = !this.store.isConversationStreaming(conversationId);
+    const boundary = this.store.getConversation(conversationId)?.messages.find(m => m.id === boundaryId);
+    const hasSummary = boundary?.blocks.some(b => b.type === 'text' && b.content.trim().length > 0) ?? false;
+    this.store.batchUpdate(() => {
+      if (!cancelled && !failure && hasSummary) {
+        this.store.completeCompaction(conversationId);
+      } else {
+        this.store.abortCompaction(conversationId, boundaryId);
+      }
+      this.store.setStreaming(conversationId, false);
+    });
+    this.broadcast({ type: 'streamEnd', conversationId });
+
+    if (!cancelled && (failure || !hasSummary)) {
+      vscode.window.showWarningMessage(`iFlow: Could not compact the conversation: ${failure ?? 'the model returned no summary'}`);
+    }
+  }
+
+  private getRunState(conversationId: string): RunState {
+    let runState = this.runStates.get(conversationId);
+    if (!runState) {
+      runState = {
+        editReviewTracker: new EditReviewTracker(),
+        checkpointRecorder: new CheckpointRecorder(this.checkpointStore),
+        planApprovedMode: null,
+        planFeedbackText: null,
+        rejectionFeedbackText: null,
+      };
+      this.runStates.set(conversationId, runState);
+    }
+    return runState;
+  }
+
+  /** Compute hunks for a just-finished write/edit tool and attach them to its block. */
+  private attachEditReview(conversationId: string, runState: RunState, status: 'completed' | 'error', toolCallId?: string): void {
+    const ref = this.store.getLastToolBlockRef(conversationId, toolCallId);
+    const block = ref ? this.store.getToolBlock(ref.messageId, ref.blockIndex) : null;
+    if (!ref || !block) {
+      return;
+    }
+    runState.editReviewTracker.finishTool(status, block.name, ref.input, toolCallId)
+      .then((review) => {
+        if (review) {
+          this.store.setToolReview(ref.messageId, ref.blockIndex, review);
+        }
+      })
+      .catch(() => {
+        // no-op: edit review is best effort
+      });
+  }
+
+  private applyRetentionSettings(): void {
+    const config = vscode.workspace.getConfiguration('iflow');
+    this.store.setRetentionPolicy({
+      maxConversations: Math.max(0, Math.floor(config.get<number>('maxConversations', 0))),
+      retentionDays: Math.max(0, config.get<number>('conversationRetentionDays', 0)),
+    });
+  }
+
+  /** Rebuild the model catalog from the built-ins, the CLI's list and the iflow.models setting. */
+  private applyModelSettings(): void {
+    const { entries, errors } = parseModelSettings(vscode.workspace.getConfiguration('iflow').get<unknown>('models'));
+    if (errors.length > 0) {
+      vscode.window.showWarningMessage(`iFlow: Ignoring invalid model settings: ${errors.join('; ')}`);
+    }
+    this.store.setModels(buildModelCatalog(this.cliModels, entries));
+    // Provider models take their metadata from the catalog
+    void this.loadProviderProfiles();
+  }
+
+  private setCliModels(models: ModelInfo[]): void {
+    const ids = (list: ModelInfo[]) => list.map(m => `${m.id}\u0000${m.displayName}`).join('\n');
+    if (ids(models) === ids(this.cliModels)) {
+      return;
+    }
+    this.cliModels = models;
+    this.applyModelSettings();
+  }
+
+  private syncWorkspaceFolders(): void {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(f => ({
+      uri: f.uri.fsPath,
+      name: f.name,
+    }));
+    this.store.setWorkspaceFolders(folders);
+  }
+
+  private resolveWorkspaceFolder(conversation: Conversation): string | undefined {
+    const allFolders = vscode.workspace.workspaceFolders;
+    if (!allFolders || allFolders.length === 0) {
+      return undefined;
+    }
+
+    // Priority 1: Conversation's explicit workspace folder (if still valid)
+    if (conversation.workspaceFolderUri) {
+      const stillExists = allFolders.some(f => f.uri.fsPath === conversation.workspaceFolderUri);
+      if (stillExists) {
+        return conversation.workspaceFolderUri;
+      }
+    }
+
+    // Priority 2: Folder containing the active editor file
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && activeEditor.document.uri.scheme === 'file') {
+      const folder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
+      if (folder) {
+        return folder.uri.fsPath;
+      }
+    }
+
+    // Priority 3: First workspace folder
+    return allFolders[0].uri.fsPath;
+  }
+
+  private getAllWorkspaceFolderPaths(): string[] {
+    return (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
+  }
+
+  async dispose(): Promise<void> {
+    while (this.disposables.length) {
+      this.disposables.pop()?.dispose();
+    }
+    this.views.clear();
+    await this.clients.disposeAll();
+    this.authService.dispose();
+  }
+}
@@ -0,0 +1,21 @@
+// Views attached to the session: the chat webviews (panel and sidebars) and
+// non-webview consumers such as the usage tree.
+
+import { ExtensionMessage } from './protocol';
+
+/** A view attached to the session; receives every state update and stream event. */
+export interface SessionView {
+  postMessage(message: ExtensionMessage): void;
+  /** Whether the view is a bound webview that can render conversation HTML (for the HTML export). */
+  readonly canRenderHtml?: boolean;
+}
+
+/** The first attached view that can render the HTML export, if any. */
+export function findHtmlRenderer(views: Iterable<SessionView>): SessionView | undefined {
+  for (const view of views) {
+    if (view.canRenderHtml) {
+      return view;
+    }
+  }
+  return undefined;
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { WebviewHandler } from './webviewHandler';
+import { IFlowSession } from './session';
 
 export class IFlowSidebarProvider implements vscode.WebviewViewProvider {
   public static readonly primaryViewType = 'iflow-sidebar';
@@ -10,7 +11,7 @@ export class IFlowSidebarProvider implements vscode.WebviewViewProvider {
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly globalState: vscode.Memento
+    private readonly session: IFlowSession
   ) {}
 
   resolveWebviewView(
@@ -29,7 +30,7 @@ export class IFlowSidebarProvider implements vscode.WebviewViewProvider {
     };
 
     // Create handler for this sidebar view
-    this.handler = new WebviewHandler(this.extensionUri, this.globalState);
+    this.handler = new WebviewHandler(this.extensionUri, this.session);
     this.handler.bindWebview(webviewView.webview);
 
     // Set HTML content
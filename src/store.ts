@@ -1,4 +1,3 @@
-import * as vscode from 'vscode';
 import {
   Conversation,
   ConversationState,
@@ -8,24 +7,34 @@ import {
   OutputBlock,
   AttachedFile,
   StreamChunk,
-  MODELS,
-  MODEL_CONTEXT_SIZES
+  EditReview,
+  Checkpoint,
+  BranchSet,
+  ModelInfo,
+  ProviderInfo,
+  AccountInfo
 } from './protocol';
-
-const STORAGE_KEY = 'iflow.conversations';
+import { formatTranscript } from './transcript';
+import { estimateContextTokens } from './tokenUsage';
+import { BUILTIN_MODELS, DEFAULT_CONTEXT_SIZE, findModel } from './modelCatalog';
+import { ConversationStorage, RetentionPolicy, applyRetention } from './conversationStorage';
+import { CapturedFile, collectSnapshots } from './checkpoints';
 
 export class ConversationStore {
   private state: ConversationState;
-  private memento: vscode.Memento;
+  private storage: ConversationStorage;
   private onStateChange: (state: ConversationState) => void;
   private suppressNotify = false;
+  /** Conversations with a run in progress (several can stream in parallel). */
+  private readonly streamingIds = new Set<string>();
+  private retention: RetentionPolicy = { maxConversations: 0, retentionDays: 0 };
 
-  constructor(memento: vscode.Memento, onStateChange: (state: ConversationState) => void) {
-    this.memento = memento;
+  constructor(storage: ConversationStorage, onStateChange: (state: ConversationState) => void) {
+    this.storage = storage;
     this.onStateChange = onStateChange;
 
     // Load saved conversations and CLI status
-    const saved = memento.get<{ conversations: Conversation[]; currentId: string | null; cliAvailable?: boolean; cliVersion?: string | null }>(STORAGE_KEY);
+    const saved = storage.load();
 
     this.state = {
       currentConversationId: saved?.currentId || null,
@@ -34,15 +43,22 @@ export class ConversationStore {
       cliVersion: saved?.cliVersion ?? null,
       cliDiagnostics: null,
       isStreaming: false,
+      streamingConversationIds: [],
       workspaceFolders: [],
-      isMultiRoot: false
+      isMultiRoot: false,
+      models: [...BUILTIN_MODELS],
+      providers: [],
+      account: { authType: null, loggedIn: false, hasApiKey: false }
     };
   }
 
   getState(): ConversationState {
+    const currentId = this.state.currentConversationId;
     return {
       ...this.state,
-      contextUsage: this.getContextUsage(),
+      isStreaming: currentId !== null && this.streamingIds.has(currentId),
+      streamingConversationIds: [...this.streamingIds],
+      contextUsage: this.getContextUsage(this.getCurrentConversation()),
     };
   }
 
@@ -51,6 +67,14 @@ export class ConversationStore {
     return this.state.conversations.find(c => c.id === this.state.currentConversationId) || null;
   }
 
+  getConversation(conversationId: string): Conversation | null {
+    return this.state.conversations.find(c => c.id === conversationId) || null;
+  }
+
+  isConversationStreaming(conversationId: string): boolean {
+    return this.streamingIds.has(conversationId);
+  }
+
   setCliStatus(available: boolean, version: string | null, diagnostics?: string): void {
     this.state.cliAvailable = available;
     this.state.cliVersion = version;
@@ -68,8 +92,8 @@ export class ConversationStore {
     this.notifyChange();
   }
 
-  setConversationWorkspaceFolder(uri: string): void {
-    const conversation = this.getCurrentConversation();
+  setConversationWorkspaceFolder(uri: string, conversationId?: string): void {
+    const conversation = conversationId ? this.getConversation(conversationId) : this.getCurrentConversation();
     if (conversation) {
       conversation.workspaceFolderUri = uri;
       conversation.updatedAt = Date.now();
@@ -78,8 +102,12 @@ export class ConversationStore {
     }
   }
 
-  setStreaming(streaming: boolean): void {
-    this.state.isStreaming = streaming;
+  setStreaming(conversationId: string, streaming: boolean): void {
+    if (streaming) {
+      this.streamingIds.add(conversationId);
+    } else {
+      this.streamingIds.delete(conversationId);
+    }
     this.notifyChange();
   }
 
@@ -91,7 +119,8 @@ export class ConversationStore {
       messages: [],
       mode: 'default',
       think: current?.think ?? false,
-      model: current?.model ?? MODELS[0],
+      model: current?.model ?? this.state.models[0].id,
+      providerId: current?.providerId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
       workspaceFolderUri: workspaceFolderUri ?? current?.workspaceFolderUri
@@ -99,11 +128,58 @@ export class ConversationStore {
 
     this.state.conversations.unshift(conversation);
     this.state.currentConversationId = conversation.id;
+    this.prune();
+    this.save();
+    this.notifyChange();
+    return conversation;
+  }
+
+  /** Set the retention limits and drop conversations that exceed them. */
+  setRetentionPolicy(policy: RetentionPolicy): void {
+    this.retention = policy;
+    if (this.prune()) {
+      this.save();
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Add a conversation imported from another machine and make it current.
+   * It gets a fresh id; its transcript is kept as seed context in case the
+   * original CLI session cannot be loaded here.
+   */
+  importConversation(imported: Conversation): Conversation {
+    const conversation: Conversation = {
+      ...imported,
+      id: this.generateId(),
+      updatedAt: Date.now(),
+      seedContext: imported.seedContext ?? (formatTranscript(imported.messages) || undefined),
+    };
+
+    this.state.conversations.unshift(conversation);
+    this.state.currentConversationId = conversation.id;
+    this.prune();
     this.save();
     this.notifyChange();
     return conversation;
   }
 
+  /**
+   * Add conversations moved in from legacy global storage, for a workspace
+   * folder added after activation. Ids already present are skipped.
+   */
+  adoptConversations(conversations: Conversation[]): void {
+    const existingIds = new Set(this.state.conversations.map(c => c.id));
+    const adopted = conversations.filter(c => !existingIds.has(c.id));
+    if (adopted.length === 0) {
+      return;
+    }
+    this.state.conversations = [...this.state.conversations, ...adopted].sort((a, b) => b.updatedAt - a.updatedAt);
+    this.prune();
+    this.save();
+    this.notifyChange();
+  }
+
   switchConversation(conversationId: string): void {
     const conversation = this.state.conversations.find(c => c.id === conversationId);
     if (conversation) {
@@ -117,6 +193,7 @@ export class ConversationStore {
     const index = this.state.conversations.findIndex(c => c.id === conversationId);
     if (index !== -1) {
       this.state.conversations.splice(index, 1);
+      this.streamingIds.delete(conversationId);
       if (this.state.currentConversationId === conversationId) {
         this.state.currentConversationId = this.state.conversations[0]?.id || null;
       }
@@ -131,14 +208,16 @@ export class ConversationStore {
       conversation.messages = [];
       conversation.title = 'New Conversation';
       conversation.sessionId = undefined;
+      conversation.seedContext = undefined;
       conversation.updatedAt = Date.now();
       this.save();
       this.notifyChange();
     }
   }
 
-  setMode(mode: ConversationMode): void {
-    const conversation = this.getCurrentConversation() ?? this.newConversation();
+  setMode(mode: ConversationMode, conversationId?: string): void {
+    const conversation = (conversationId ? this.getConversation(conversationId) : this.getCurrentConversation())
+      ?? this.newConversation();
     conversation.mode = mode;
     conversation.updatedAt = Date.now();
     this.save();
@@ -161,16 +240,66 @@ export class ConversationStore {
     this.notifyChange();
   }
 
-  setSessionId(sessionId: string): void {
-    const conversation = this.getCurrentConversation();
+  /** Replace the model catalog (built-ins merged with CLI-reported and configured models). */
+  setModels(models: ModelInfo[]): void {
+    this.state.models = models;
+    this.notifyChange();
+  }
+
+  setAccount(account: AccountInfo): void {
+    this.state.account = account;
+    this.notifyChange();
+  }
+
+  /** Replace the provider profiles (from settings, with API key presence). */
+  setProviders(providers: ProviderInfo[]): void {
+    this.state.providers = providers;
+    this.notifyChange();
+  }
+
+  getProvider(providerId: string): ProviderInfo | undefined {
+    return this.state.providers.find(p => p.id === providerId);
+  }
+
+  /** Models a conversation can use: its provider's list, or the catalog. */
+  getModelsFor(conversation: Conversation | null): ModelInfo[] {
+    const provider = conversation?.providerId ? this.getProvider(conversation.providerId) : undefined;
+    return provider?.models ?? this.state.models;
+  }
+
+  getModel(id: ModelType, conversation: Conversation | null = this.getCurrentConversation()): ModelInfo | undefined {
+    return findModel(this.getModelsFor(conversation), id);
+  }
+
+  /**
+   * Run the current conversation against a provider profile (null for the
+   * CLI's own configuration), switching to that provider's first model when
+   * the current one is not offered there.
+   */
+  setProvider(providerId: string | null): void {
+    const conversation = this.getCurrentConversation() ?? this.newConversation();
+    conversation.providerId = providerId ?? undefined;
+    const models = this.getModelsFor(conversation);
+    if (!findModel(models, conversation.model) && models.length > 0) {
+      conversation.model = models[0].id;
+    }
+    conversation.updatedAt = Date.now();
+    this.save();
+    this.notifyChange();
+  }
+
+  setSessionId(conversationId: string, sessionId: string): void {
+    const conversation = this.getConversation(conversationId);
     if (conversation) {
       conversation.sessionId = sessionId;
+      // The new session has received the seeded transcript
+      conversation.seedContext = undefined;
       this.save();
     }
   }
 
-  addUserMessage(content: string, attachedFiles: AttachedFile[]): Message {
-    let conversation = this.getCurrentConversation();
+  addUserMessage(content: string, attachedFiles: AttachedFile[], conversationId?: string): Message {
+    let conversation = conversationId ? this.getConversation(conversationId) : this.getCurrentConversation();
     if (!conversation) {
       conversation = this.newConversation();
     }
@@ -197,10 +326,10 @@ export class ConversationStore {
     return message;
   }
 
-  startAssistantMessage(): Message {
-    const conversation = this.getCurrentConversation();
+  startAssistantMessage(conversationId: string, model?: ModelType): Message {
+    const conversation = this.getConversation(conversationId);
     if (!conversation) {
-      throw new Error('No current conversation');
+      throw new Error(`Unknown conversation: ${conversationId}`);
     }
 
     const message: Message = {
@@ -210,7 +339,8 @@ export class ConversationStore {
       blocks: [],
       attachedFiles: [],
       timestamp: Date.now(),
-      streaming: true
+      streaming: true,
+      model: model ?? conversation.model
     };
 
     conversation.messages.push(message);
@@ -219,8 +349,8 @@ export class ConversationStore {
     return message;
   }
 
-  appendToAssistantMessage(chunk: StreamChunk): void {
-    const conversation = this.getCurrentConversation();
+  appendToAssistantMessage(conversationId: string, chunk: StreamChunk): void {
+    const conversation = this.getConversation(conversationId);
     if (!conversation) return;
 
     const message = conversation.messages[conversation.messages.length - 1];
@@ -230,14 +360,15 @@ export class ConversationStore {
     this.notifyChange();
   }
 
-  endAssistantMessage(): void {
-    const conversation = this.getCurrentConversation();
+  endAssistantMessage(conversationId: string): void {
+    const conversation = this.getConversation(conversationId);
     if (!conversation) return;
 
     const message = conversation.messages[conversation.messages.length - 1];
     if (!message || message.role !== 'assistant') return;
 
     message.streaming = false;
+    message.durationMs = Date.now() - message.timestamp;
 
     // Collapse thinking blocks
     for (const block of message.blocks) {
@@ -251,6 +382,317 @@ export class ConversationStore {
     this.notifyChange();
   }
 
+  // ── Compaction ──────────────────────────────────────────────────────
+
+  /**
+   * Append the boundary message that the summary of the conversation so far
+   * streams into. It is a regular assistant message flagged with compaction.
+   */
+  beginCompaction(conversationId: string): Message {
+    const usage = this.getContextUsage(conversationId);
+    const message = this.startAssistantMessage(conversationId);
+    message.compaction = { usedTokens: usage.usedTokens, totalTokens: usage.totalTokens };
+    return message;
+  }
+
+  /**
+   * Finish the boundary message and detach the conversation from its CLI
+   * session: the next run starts a fresh one seeded with the summary.
+   */
+  completeCompaction(conversationId: string): void {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      return;
+    }
+
+    this.endAssistantMessage(conversationId);
+    conversation.sessionId = undefined;
+    conversation.seedContext = formatTranscript(conversation.messages);
+    this.save();
+  }
+
+  /** Drop a boundary message whose summary could not be produced. */
+  abortCompaction(conversationId: string, messageId: string): void {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      return;
+    }
+
+    conversation.messages = conversation.messages.filter(m => m.id !== messageId);
+    this.save();
+    this.notifyChange();
+  }
+
+  /** Record a pre-turn file snapshot on the streaming assistant message. */
+  addCheckpointFile(conversationId: string, captured: CapturedFile): void {
+    const conversation = this.getConversation(conversationId);
+    const message = conversation?.messages[conversation.messages.length - 1];
+    if (!conversation || !message || message.role !== 'assistant') {
+      return;
+    }
+
+    if (!message.checkpoint) {
+      message.checkpoint = { files: [] };
+    }
+    if ('skipped' in captured) {
+      message.checkpoint.skipped = [...(message.checkpoint.skipped ?? []), captured.path];
+    } else {
+      message.checkpoint.files.push(captured);
+    }
+    this.save();
+  }
+
+  /** Hashes of the checkpoint store content any conversation refers to. */
+  getCheckpointBlobs(): Set<string> {
+    const blobs = new Set<string>();
+    for (const conversation of this.state.conversations) {
+      for (const snapshot of collectSnapshots(conversation.messages)) {
+        if (snapshot.blob) {
+          blobs.add(snapshot.blob);
+        }
+      }
+    }
+    return blobs;
+  }
+
+  /**
+   * Move snapshot content that earlier versions kept inline into the
+   * checkpoint store. Content the store cannot take stays inline.
+   */
+  migrateInlineCheckpoints(put: (content: string) => string | null): void {
+    let changed = false;
+    for (const conversation of this.state.conversations) {
+      for (const snapshot of collectSnapshots(conversation.messages)) {
+        if (snapshot.content === undefined) {
+          continue;
+        }
+        const blob = snapshot.content === null ? null : put(snapshot.content);
+        if (snapshot.content === null || blob) {
+          snapshot.blob = blob;
+          delete snapshot.content;
+          changed = true;
+        }
+      }
+    }
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Checkpoints of every turn that rewinding to the given message would undo,
+   * oldest first. Returns null if the message is not in the current conversation.
+   */
+  getRewindCheckpoints(messageId: string): Checkpoint[] | null {
+    const conversation = this.getCurrentConversation();
+    const cut = conversation ? this.getRewindIndex(conversation, messageId) : -1;
+    if (!conversation || cut === -1) {
+      return null;
+    }
+    return conversation.messages
+      .slice(cut)
+      .filter(m => m.checkpoint && (m.checkpoint.files.length > 0 || (m.checkpoint.skipped?.length ?? 0) > 0))
+      .map(m => m.checkpoint as Checkpoint);
+  }
+
+  /**
+   * Truncate the current conversation at the given message. Rewinding to a user
+   * message removes that message too; rewinding to an assistant message keeps it.
+   * The CLI session still holds the removed turns, so it is dropped and the kept
+   * messages are replayed into the next prompt instead.
+   */
+  rewindToMessage(messageId: string): boolean {
+    const conversation = this.getCurrentConversation();
+    const cut = conversation ? this.getRewindIndex(conversation, messageId) : -1;
+    if (!conversation || cut === -1) {
+      return false;
+    }
+
+    conversation.messages = conversation.messages.slice(0, cut);
+    conversation.sessionId = undefined;
+    conversation.seedContext = formatTranscript(conversation.messages) || undefined;
+    if (conversation.messages.length === 0) {
+      conversation.title = 'New Conversation';
+    }
+    conversation.updatedAt = Date.now();
+    this.save();
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Edit a prior user message of the current conversation. The message and
+   * everything after it are kept as a sibling branch; the edited message
+   * starts the new active branch. Returns the new message, or null.
+   */
+  editUserMessage(messageId: string, content: string): Message | null {
+    const conversation = this.getCurrentConversation();
+    const index = conversation ? conversation.messages.findIndex(m => m.id === messageId) : -1;
+    if (!conversation || index === -1 || conversation.messages[index].role !== 'user') {
+      return null;
+    }
+
+    const original = conversation.messages[index];
+    const branchSet = this.forkAt(conversation, index);
+    const message: Message = {
+      id: this.generateId(),
+      role: 'user',
+      content,
+      blocks: [{ type: 'text', content }],
+      attachedFiles: original.attachedFiles,
+      timestamp: Date.now(),
+      branchSet
+    };
+    conversation.messages.push(message);
+    if (index === 0) {
+      conversation.title = this.deriveTitle(content);
+    }
+
+    conversation.updatedAt = Date.now();
+    this.save();
+    this.notifyChange();
+    return message;
+  }
+
+  /**
+   * Prepare regenerating the last assistant message of the current
+   * conversation: its prompt is re-added as a new branch so both answers stay
+   * available as siblings. Returns the re-added prompt, or null when the
+   * given message is not the last answer.
+   */
+  branchForRegenerate(assistantMessageId: string): Message | null {
+    const messages = this.getCurrentConversation()?.messages ?? [];
+    const last = messages[messages.length - 1];
+    const prompt = messages[messages.length - 2];
+    if (!last || last.id !== assistantMessageId || last.role !== 'assistant' || prompt?.role !== 'user') {
+      return null;
+    }
+    return this.editUserMessage(prompt.id, prompt.content);
+  }
+
+  /**
+   * Make another sibling branch active at the message holding the branch set.
+   * The outgoing branch keeps its CLI session so it can be resumed later.
+   */
+  switchBranch(messageId: string, branchIndex: number): boolean {
+    const conversation = this.getCurrentConversation();
+    const index = conversation ? conversation.messages.findIndex(m => m.id === messageId) : -1;
+    const branchSet = index !== -1 ? conversation?.messages[index].branchSet : undefined;
+    const incoming = branchSet?.branches[branchIndex];
+    if (!conversation || !branchSet || !incoming) {
+      return false;
+    }
+
+    delete conversation.messages[index].branchSet;
+    branchSet.branches[branchSet.active] = {
+      messages: conversation.messages.slice(index),
+      sessionId: conversation.sessionId,
+      seedContext: conversation.seedContext
+    };
+    branchSet.branches[branchIndex] = null;
+    branchSet.active = branchIndex;
+    incoming.messages[0].branchSet = branchSet;
+
+    conversation.messages = [...conversation.messages.slice(0, index), ...incoming.messages];
+    conversation.sessionId = incoming.sessionId;
+    conversation.seedContext = incoming.seedContext;
+    const firstUser = conversation.messages.find(m => m.role === 'user');
+    if (index === 0 && firstUser) {
+      conversation.title = this.deriveTitle(firstUser.content);
+    }
+
+    conversation.updatedAt = Date.now();
+    this.save();
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Move messages[index..] into a sibling branch and truncate the conversation
+   * there, returning the branch set the next appended message should carry.
+   * The CLI session has seen the moved turns, so the new branch starts a fresh
+   * session seeded with the shared prefix.
+   */
+  private forkAt(conversation: Conversation, index: number): BranchSet {
+    const tail = conversation.messages.slice(index);
+    const branchSet = tail[0].branchSet ?? { branches: [null], active: 0 };
+    delete tail[0].branchSet;
+    branchSet.branches[branchSet.active] = {
+      messages: tail,
+      sessionId: conversation.sessionId,
+      seedContext: conversation.seedContext
+    };
+    branchSet.branches.push(null);
+    branchSet.active = branchSet.branches.length - 1;
+
+    conversation.messages = conversation.messages.slice(0, index);
+    conversation.sessionId = undefined;
+    conversation.seedContext = formatTranscript(conversation.messages) || undefined;
+    return branchSet;
+  }
+
+  private getRewindIndex(conversation: Conversation, messageId: string): number {
+    const index = conversation.messages.findIndex(m => m.id === messageId);
+    if (index === -1) {
+      return -1;
+    }
+    return conversation.messages[index].role === 'user' ? index : index + 1;
+  }
+
+  /**
+   * Locate the tool block of the given tool call in the streaming assistant
+   * message, or its most recent tool block.
+   */
+  getLastToolBlockRef(conversationId: string, toolCallId?: string): { messageId: string; blockIndex: number; input: Record<string, unknown> } | null {
+    const conversation = this.getConversation(conversationId);
+    const message = conversation?.messages[conversation.messages.length - 1];
+    if (!message || message.role !== 'assistant') {
+      return null;
+    }
+    let last = -1;
+    for (let i = message.blocks.length - 1; i >= 0; i--) {
+      const block = message.blocks[i];
+      if (block.type !== 'tool') {
+        continue;
+      }
+      if (!toolCallId || block.toolCallId === toolCallId) {
+        return { messageId: message.id, blockIndex: i, input: block.input };
+      }
+      if (last === -1) {
+        last = i;
+      }
+    }
+    const block = message.blocks[last];
+    return block?.type === 'tool' ? { messageId: message.id, blockIndex: last, input: block.input } : null;
+  }
+
+  getToolBlock(messageId: string, blockIndex: number): Extract<OutputBlock, { type: 'tool' }> | null {
+    const block = this.findMessage(messageId)?.message.blocks[blockIndex];
+    return block?.type === 'tool' ? block : null;
+  }
+
+  setToolReview(messageId: string, blockIndex: number, review: EditReview): void {
+    const found = this.findMessage(messageId);
+    const block = found?.message.blocks[blockIndex];
+    if (!found || block?.type !== 'tool') {
+      return;
+    }
+    block.review = review;
+    found.conversation.updatedAt = Date.now();
+    this.save();
+    this.notifyChange();
+  }
+
+  private findMessage(messageId: string): { conversation: Conversation; message: Message } | null {
+    for (const conversation of this.state.conversations) {
+      const message = conversation.messages.find(m => m.id === messageId);
+      if (message) {
+        return { conversation, message };
+      }
+    }
+    return null;
+  }
+
   /** Find the last block of a given type, or null if the last block is a different type. */
   private findLastBlock<T extends OutputBlock['type']>(
     blocks: OutputBlock[],
@@ -263,6 +705,16 @@ export class ConversationStore {
     return null;
   }
 
+  private findToolBlock(blocks: OutputBlock[], toolCallId: string): Extract<OutputBlock, { type: 'tool' }> | undefined {
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i];
+      if (block.type === 'tool' && block.toolCallId === toolCallId) {
+        return block;
+      }
+    }
+    return undefined;
+  }
+
   private applyChunkToMessage(message: Message, chunk: StreamChunk): void {
     const blocks = message.blocks;
 
@@ -300,8 +752,14 @@ export class ConversationStore {
       case 'tool_start': {
         // If the last block is a running tool with the same name, update it
         // (SDK sends pending first, then in_progress with actual args/label)
-        const lastTool = this.findLastBlock(blocks, 'tool');
-        if (lastTool && lastTool.status === 'running' && lastTool.name === chunk.name) {
+        // With tool call ids, parallel calls of the same tool keep separate blocks
+        const sameCall = chunk.toolCallId ? this.findToolBlock(blocks, chunk.toolCallId) : undefined;
+        const lastTool = sameCall ?? this.findLastBlock(blocks, 'tool');
+        if (lastTool && lastTool.status === 'running' && lastTool.name === chunk.name
+            && (sameCall || !lastTool.toolCallId || !chunk.toolCallId)) {
+          if (chunk.toolCallId) {
+            lastTool.toolCallId = chunk.toolCallId;
+          }
           if (chunk.input && Object.keys(chunk.input).length > 0) {
             lastTool.input = { ...lastTool.input, ...chunk.input };
           }
@@ -315,7 +773,8 @@ export class ConversationStore {
             input: chunk.input,
             output: '',
             status: 'running',
-            label: chunk.label
+            label: chunk.label,
+            ...(chunk.toolCallId ? { toolCallId: chunk.toolCallId } : {})
           });
         }
         break;
@@ -328,7 +787,7 @@ export class ConversationStore {
       }
 
       case 'tool_end': {
-        const toolBlock = this.findLastBlock(blocks, 'tool');
+        const toolBlock = (chunk.toolCallId ? this.findToolBlock(blocks, chunk.toolCallId) : undefined) ?? this.findLastBlock(blocks, 'tool');
         if (toolBlock) { toolBlock.status = chunk.status; }
         break;
       }
@@ -386,51 +845,24 @@ export class ConversationStore {
       case 'warning':
         blocks.push({ type: 'warning', message: chunk.message });
         break;
+
+      case 'usage':
+        message.usage = chunk.usage;
+        break;
     }
   }
 
-  private getContextUsage(): { usedTokens: number; totalTokens: number; percent: number } {
-    const conversation = this.getCurrentConversation();
+  /** Context window usage of a conversation (the current one when no id is given). */
+  getContextUsage(conversationOrId?: Conversation | string | null): NonNullable<ConversationState['contextUsage']> {
+    const conversation = typeof conversationOrId === 'string' ? this.getConversation(conversationOrId) : conversationOrId;
     if (!conversation) {
-      return { usedTokens: 0, totalTokens: 128000, percent: 0 };
-    }
-
-    const totalTokens = MODEL_CONTEXT_SIZES[conversation.model] || 128000;
-    let usedTokens = 0;
-
-    for (const msg of conversation.messages) {
-      usedTokens += this.estimateTokens(msg.content);
-      for (const block of msg.blocks) {
-        if (block.type === 'tool' && block.output) {
-          usedTokens += this.estimateTokens(block.output);
-        }
-      }
-      if (msg.attachedFiles) {
-        for (const file of msg.attachedFiles) {
-          if (file.content) {
-            usedTokens += this.estimateTokens(file.content);
-          }
-        }
-      }
+      return { usedTokens: 0, totalTokens: DEFAULT_CONTEXT_SIZE, percent: 0, source: 'estimate' };
     }
 
+    const totalTokens = this.getModel(conversation.model, conversation)?.contextSize ?? DEFAULT_CONTEXT_SIZE;
+    const { usedTokens, source } = estimateContextTokens(conversation.messages, conversation.model);
     const percent = totalTokens > 0 ? Math.min(100, Math.round((usedTokens / totalTokens) * 100)) : 0;
-    return { usedTokens, totalTokens, percent };
-  }
-
-  private estimateTokens(text: string): number {
-    if (!text) return 0;
-    let tokens = 0;
-    for (const ch of text) {
-      // CJK characters: roughly 0.5 tokens per character (2 chars per token)
-      if (ch.charCodeAt(0) > 0x2E80) {
-        tokens += 0.5;
-      } else {
-        // Latin/ASCII: roughly 0.25 tokens per character (4 chars per token)
-        tokens += 0.25;
-      }
-    }
-    return Math.ceil(tokens);
+    return { usedTokens, totalTokens, percent, source };
   }
 
   private deriveTitle(content: string): string {
@@ -446,8 +878,25 @@ export class ConversationStore {
     return Date.now().toString(36) + Math.random().toString(36).substring(2, 9);
   }
 
+  /**
+   * Apply the retention policy. The current conversation and those with a run
+   * in progress are always kept. Returns whether anything was removed.
+   */
+  private prune(): boolean {
+    const keep = new Set(this.streamingIds);
+    if (this.state.currentConversationId) {
+      keep.add(this.state.currentConversationId);
+    }
+    const kept = applyRetention(this.state.conversations, this.retention, Date.now(), keep);
+    if (kept.length === this.state.conversations.length) {
+      return false;
+    }
+    this.state.conversations = kept;
+    return true;
+  }
+
   private save(): void {
-    this.memento.update(STORAGE_KEY, {
+    this.storage.save({
       conversations: this.state.conversations,
       currentId: this.state.currentConversationId,
       cliAvailable: this.state.cliAvailable,
@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { refreshDelay } from '../authService';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+suite('authService', () => {
+  test('refreshes a day before expiry, waking at least every six hours', () => {
+    assert.strictEqual(refreshDelay(26 * HOUR, 0), 2 * HOUR);
+    assert.strictEqual(refreshDelay(7 * 24 * HOUR, 0), 6 * HOUR);
+    assert.strictEqual(refreshDelay(20 * HOUR, 0), 0);
+  });
+
+  test('backs off exponentially after failures, but not past expiry', () => {
+    assert.deepStrictEqual([1, 2, 3, 6, 10].map(n => refreshDelay(20 * HOUR, n)), [MINUTE, 2 * MINUTE, 4 * MINUTE, 30 * MINUTE, 30 * MINUTE]);
+    assert.strictEqual(refreshDelay(90 * 1000, 3), 90 * 1000);
+    assert.strictEqual(refreshDelay(-1000, 1), 0);
+  });
+});
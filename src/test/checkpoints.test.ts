@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckpointBlobStore, CheckpointRecorder, mergeCheckpoints, restoreCheckpoints } from '../checkpoints';
+import { FileSnapshot } from '../protocol';
+
+suite('checkpoints', () => {
+  let tmpDir: string;
+  let blobs: CheckpointBlobStore;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iflow-checkpoints-'));
+    blobs = new CheckpointBlobStore(path.join(tmpDir, 'store'));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('recorder snapshots each edited file once, before it changes', () => {
+    const file = path.join(tmpDir, 'a.txt');
+    fs.writeFileSync(file, 'before');
+    const recorder = new CheckpointRecorder(blobs);
+
+    const first = recorder.capture('edit_file', { file_path: file });
+    fs.writeFileSync(file, 'after');
+    const second = recorder.capture('edit_file', { file_path: file });
+
+    assert.ok(first && 'blob' in first && first.blob);
+    assert.strictEqual(first.path, file);
+    assert.strictEqual(second, null);
+  });
+
+  test('recorder ignores read tools and marks new files as missing', () => {
+    const recorder = new CheckpointRecorder(blobs);
+    const file = path.join(tmpDir, 'new.txt');
+
+    assert.strictEqual(recorder.capture('read_file', { file_path: file }), null);
+    assert.deepStrictEqual(recorder.capture('write_file', { file_path: file }), { path: file, blob: null });
+  });
+
+  test('recorder resolves relative paths against the run folder', () => {
+    fs.writeFileSync(path.join(tmpDir, 'rel.txt'), 'before');
+    const recorder = new CheckpointRecorder(blobs);
+    recorder.reset(tmpDir);
+
+    assert.strictEqual(recorder.capture('edit_file', { file_path: 'rel.txt' })?.path, path.join(tmpDir, 'rel.txt'));
+  });
+
+  test('recorder reports files as skipped once the store is full', () => {
+    const file = path.join(tmpDir, 'big.txt');
+    fs.writeFileSync(file, 'more than ten bytes');
+    const recorder = new CheckpointRecorder(new CheckpointBlobStore(path.join(tmpDir, 'small'), 10));
+
+    assert.deepStrictEqual(recorder.capture('edit_file', { file_path: file }), { path: file, skipped: true });
+  });
+
+  test('store keeps identical content once and prunes what nothing refers to', async () => {
+    const kept = blobs.put('kept');
+    const dropped = blobs.put('dropped');
+    assert.strictEqual(blobs.put('kept'), kept);
+    assert.ok(kept && dropped);
+
+    const later = Date.now() + 2 * 24 * 60 * 60 * 1000;
+    await blobs.prune(new Set([kept]), later);
+
+    assert.strictEqual(await blobs.read(kept), 'kept');
+    await assert.rejects(blobs.read(dropped));
+  });
+
+  test('merge keeps the earliest snapshot of each path', () => {
+    const merged = mergeCheckpoints([
+      { files: [{ path: '/a', blob: 'v1' }] },
+      { files: [{ path: '/a', blob: 'v2' }, { path: '/b', blob: null }] },
+    ]);
+    assert.deepStrictEqual(merged, [{ path: '/a', blob: 'v1' }, { path: '/b', blob: null }]);
+  });
+
+  test('restore rewrites edited files and deletes created ones', async () => {
+    const edited = path.join(tmpDir, 'edited.txt');
+    const created = path.join(tmpDir, 'created.txt');
+    fs.writeFileSync(edited, 'changed');
+    fs.writeFileSync(created, 'new');
+
+    const failed = await restoreCheckpoints([
+      { files: [{ path: edited, blob: blobs.put('original') }, { path: created, blob: null }] },
+    ], blobs);
+
+    assert.deepStrictEqual(failed, []);
+    assert.strictEqual(fs.readFileSync(edited, 'utf-8'), 'original');
+    assert.strictEqual(fs.existsSync(created), false);
+  });
+
+  test('restore still reads content kept inline by earlier versions', async () => {
+    const edited = path.join(tmpDir, 'legacy.txt');
+    fs.writeFileSync(edited, 'changed');
+    const legacy = { path: edited, content: 'original' } as unknown as FileSnapshot;
+
+    assert.deepStrictEqual(await restoreCheckpoints([{ files: [legacy] }], blobs), []);
+    assert.strictEqual(fs.readFileSync(edited, 'utf-8'), 'original');
+  });
+});
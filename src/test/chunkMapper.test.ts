@@ -81,4 +81,29 @@ suite('ChunkMapper', () => {
       assert.strictEqual(chunks[0].entries[1].status, 'in_progress');
     }
   });
+
+  test('permission request carries the tool call diff into tool_confirmation', async () => {
+    const mapper = new ChunkMapper(async () => createMockSDK(), () => {});
+    mapper.reset();
+
+    const chunks = await mapper.mapMessageToChunks({
+      type: 'tool_call',
+      status: 'pending',
+      toolName: 'Edit',
+      label: 'Edit',
+      confirmation: { type: 'edit', description: 'Edit' },
+      _toolCall: {
+        title: 'Edit',
+        content: [{ type: 'diff', path: '/ws/a.ts', oldText: 'const a = 1;', newText: 'const a = 2;' }],
+        locations: [{ path: '/ws/a.ts' }],
+      },
+      _requestId: 7,
+    });
+
+    const confirmation = chunks.find(c => c.chunkType === 'tool_confirmation');
+    assert.ok(confirmation && confirmation.chunkType === 'tool_confirmation');
+    assert.strictEqual(confirmation.requestId, 7);
+    assert.deepStrictEqual(confirmation.input, { file_path: '/ws/a.ts', old_string: 'const a = 1;', new_string: 'const a = 2;' });
+    assert.strictEqual(confirmation.canAlwaysAllow, true);
+  });
 });
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { toExportDocument, toMarkdown, suggestExportFileName } from '../conversationExport';
+import { Conversation } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+function sampleConversation(): Conversation {
+  return {
+    id: 'c1',
+    title: 'Fix the parser',
+    mode: 'default',
+    think: false,
+    model: BUILTIN_MODELS[0].id,
+    createdAt: 0,
+    updatedAt: 1000,
+    sessionId: 's1',
+    messages: [
+      {
+        id: 'u1',
+        role: 'user',
+        content: 'Fix it',
+        blocks: [{ type: 'text', content: 'Fix it' }],
+        attachedFiles: [{ path: '/repo/parser.ts' }],
+        timestamp: 0,
+      },
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        streaming: false,
+        checkpoint: { files: [{ path: '/repo/parser.ts', blob: 'hash-old' }] },
+        blocks: [
+          { type: 'thinking', content: 'Look at the tokenizer', collapsed: true },
+          {
+            type: 'tool',
+            name: 'edit_file',
+            input: { file_path: '/repo/parser.ts' },
+            output: 'ok',
+            status: 'completed',
+            review: { filePath: '/repo/parser.ts', hunks: [] },
+          },
+          { type: 'code', language: 'md', content: 'use ``` fences' },
+          { type: 'plan', entries: [{ content: 'Write a test', status: 'completed', priority: 'high' }] },
+        ],
+        attachedFiles: [],
+        timestamp: 1000,
+      },
+    ],
+  };
+}
+
+suite('conversationExport', () => {
+  test('JSON export is versioned and leaves out local-only state', () => {
+    const doc = toExportDocument(sampleConversation(), 0);
+
+    assert.strictEqual(doc.schema, 'iflow.conversation');
+    assert.strictEqual(doc.version, 1);
+    assert.strictEqual(doc.conversation.sessionId, 's1');
+    const assistant = doc.conversation.messages[1];
+    assert.strictEqual(assistant.checkpoint, undefined);
+    assert.strictEqual(assistant.streaming, undefined);
+    const tool = assistant.blocks[1];
+    assert.ok(tool.type === 'tool' && tool.review === undefined);
+  });
+
+  test('Markdown export includes every block kind and safe code fences', () => {
+    const markdown = toMarkdown(sampleConversation());
+
+    assert.ok(markdown.startsWith('# Fix the parser\n'));
+    assert.ok(markdown.includes('- `/repo/parser.ts`'));
+    assert.ok(markdown.includes('<summary>Thinking</summary>'));
+    assert.ok(markdown.includes('**✓ Tool: edit_file**'));
+    assert.ok(markdown.includes('````md\nuse ``` fences\n````'));
+    assert.ok(markdown.includes('- [x] Write a test'));
+  });
+
+  test('suggested file name is a slug of the title', () => {
+    assert.strictEqual(suggestExportFileName(sampleConversation(), 'html'), 'fix-the-parser.html');
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { parseImportedConversation } from '../conversationImport';
+import { toJson } from '../conversationExport';
+import { Conversation } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+function sampleConversation(): Conversation {
+  return {
+    id: 'c1',
+    title: 'Investigate flaky test',
+    mode: 'smart',
+    think: true,
+    model: BUILTIN_MODELS[1].id,
+    createdAt: 0,
+    updatedAt: 10,
+    sessionId: 'session-1',
+    messages: [
+      {
+        id: 'u1',
+        role: 'user',
+        content: 'Why does it fail?',
+        blocks: [{ type: 'text', content: 'Why does it fail?' }],
+        attachedFiles: [],
+        timestamp: 0,
+      },
+      {
+        id: 'a1',
+        role: 'assistant',
+        content: '',
+        blocks: [
+          { type: 'tool', name: 'run_shell_command', input: { command: 'npm test' }, output: '', status: 'running' },
+          { type: 'file_ref', path: '/repo/a.test.ts', lineStart: 3 },
+        ],
+        attachedFiles: [],
+        timestamp: 10,
+      },
+    ],
+  };
+}
+
+suite('conversationImport', () => {
+  test('round-trips an exported conversation', () => {
+    const imported = parseImportedConversation(toJson(sampleConversation()));
+
+    assert.strictEqual(imported.title, 'Investigate flaky test');
+    assert.strictEqual(imported.sessionId, 'session-1');
+    assert.strictEqual(imported.model, BUILTIN_MODELS[1].id);
+    assert.strictEqual(imported.messages.length, 2);
+    // A tool that was still running when exported is shown as interrupted
+    const tool = imported.messages[1].blocks[0];
+    assert.ok(tool.type === 'tool' && tool.status === 'error');
+  });
+
+  test('imports in default mode even when exported in yolo mode', () => {
+    const conversation = sampleConversation();
+    conversation.mode = 'yolo';
+
+    const imported = parseImportedConversation(toJson(conversation));
+
+    assert.strictEqual(imported.mode, 'default');
+  });
+
+  test('reports the first invalid field', () => {
+    const doc = JSON.parse(toJson(sampleConversation()));
+    doc.conversation.messages[1].blocks[1].type = 'hologram';
+
+    assert.throws(
+      () => parseImportedConversation(JSON.stringify(doc)),
+      /conversation\.messages\[1\]\.blocks\[1\]\.type "hologram" is not a known block type/
+    );
+  });
+
+  test('rejects newer export versions and non-JSON input', () => {
+    const doc = JSON.parse(toJson(sampleConversation()));
+    doc.version = 99;
+
+    assert.throws(() => parseImportedConversation(JSON.stringify(doc)), /unsupported export version 99/);
+    assert.throws(() => parseImportedConversation('not json'), /not valid JSON/);
+  });
+});
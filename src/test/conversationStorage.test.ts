@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { applyRetention, migrateGlobalConversations, StoredConversations, STORAGE_KEY, takeGlobalConversations } from '../conversationStorage';
+import { Conversation } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+class FakeMemento {
+  private readonly values = new Map<string, unknown>();
+
+  get<T>(key: string): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  update(key: string, value: unknown): Thenable<void> {
+    this.values.set(key, value);
+    return Promise.resolve();
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function conversation(id: string, updatedAt: number, workspaceFolderUri?: string): Conversation {
+  return {
+    id,
+    title: id,
+    messages: [],
+    mode: 'default',
+    think: false,
+    model: BUILTIN_MODELS[0].id,
+    createdAt: updatedAt,
+    updatedAt,
+    workspaceFolderUri,
+  };
+}
+
+suite('conversationStorage', () => {
+  test('migration moves only conversations of the open folders', () => {
+    const globalState = new FakeMemento();
+    const workspaceState = new FakeMemento();
+    globalState.update(STORAGE_KEY, {
+      currentId: 'a',
+      conversations: [
+        conversation('a', 3, '/repo'),
+        conversation('b', 2, '/other'),
+        conversation('c', 1),
+      ],
+    });
+
+    const moved = migrateGlobalConversations(
+      globalState as unknown as vscode.Memento,
+      workspaceState as unknown as vscode.Memento,
+      ['/repo']
+    );
+
+    const local = workspaceState.get<StoredConversations>(STORAGE_KEY)!;
+    const remaining = globalState.get<StoredConversations>(STORAGE_KEY)!;
+    assert.strictEqual(moved, 1);
+    assert.deepStrictEqual(local.conversations.map(c => c.id), ['a']);
+    assert.strictEqual(local.currentId, 'a');
+    assert.deepStrictEqual(remaining.conversations.map(c => c.id), ['b', 'c']);
+    assert.strictEqual(remaining.currentId, null);
+  });
+
+  test('a folder added later takes its conversations out of global storage', () => {
+    const globalState = new FakeMemento();
+    globalState.update(STORAGE_KEY, {
+      currentId: 'b',
+      conversations: [conversation('a', 2, '/added'), conversation('b', 1, '/other')],
+    });
+
+    const taken = takeGlobalConversations(globalState as unknown as vscode.Memento, ['/added']);
+
+    assert.deepStrictEqual(taken.map(c => c.id), ['a']);
+    const remaining = globalState.get<StoredConversations>(STORAGE_KEY)!;
+    assert.deepStrictEqual(remaining.conversations.map(c => c.id), ['b']);
+    assert.strictEqual(remaining.currentId, 'b');
+    assert.deepStrictEqual(takeGlobalConversations(globalState as unknown as vscode.Memento, ['/added']), []);
+  });
+
+  test('retention drops old and excess conversations but keeps protected ones', () => {
+    const now = 100 * DAY_MS;
+    const conversations = [
+      conversation('new', now),
+      conversation('recent', now - DAY_MS),
+      conversation('older', now - 2 * DAY_MS),
+      conversation('stale', now - 40 * DAY_MS),
+      conversation('current', now - 50 * DAY_MS),
+    ];
+
+    const kept = applyRetention(conversations, { maxConversations: 3, retentionDays: 30 }, now, new Set(['current']));
+
+    assert.deepStrictEqual(kept.map(c => c.id), ['new', 'recent', 'current']);
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CredentialStore, launchEnv, parseOAuthCredentials } from '../credentials';
+
+/** In-memory SecretStorage. */
+function createSecrets(): vscode.SecretStorage {
+  const values = new Map<string, string>();
+  const emitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+  return {
+    keys: async () => [...values.keys()],
+    get: async (key: string) => values.get(key),
+    store: async (key: string, value: string) => {
+      values.set(key, value);
+      emitter.fire({ key });
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+      emitter.fire({ key });
+    },
+    onDidChange: emitter.event,
+  } as vscode.SecretStorage;
+}
+
+const oauth = {
+  access_token: 'at', refresh_token: 'rt', expiry_date: 0, token_type: 'bearer', scope: 'read',
+  apiKey: 'sk-oauth', userId: 'u1', userName: 'dev', avatar: '', email: '', phone: '',
+};
+
+suite('credentials', () => {
+  test('launch environment carries only the values that are set', () => {
+    assert.deepStrictEqual(
+      launchEnv({ apiKey: 'sk-1', baseUrl: 'https://llm.example.com/v1', selectedAuthType: '' }),
+      { IFLOW_apiKey: 'sk-1', IFLOW_baseUrl: 'https://llm.example.com/v1' }
+    );
+    assert.deepStrictEqual(launchEnv({}), {});
+  });
+
+  test('rejects OAuth credentials without tokens or key', () => {
+    assert.strictEqual(parseOAuthCredentials(JSON.stringify({ ...oauth, apiKey: '' })), null);
+    assert.strictEqual(parseOAuthCredentials('not json'), null);
+    assert.strictEqual(parseOAuthCredentials(JSON.stringify(oauth))?.userName, 'dev');
+  });
+
+  test('launch credentials prefer the provider, then the login, then the API key', async () => {
+    const store = new CredentialStore(createSecrets());
+    assert.deepStrictEqual(await store.getLaunchCredentials(), {});
+
+    await store.setApiKey('sk-plain');
+    assert.deepStrictEqual(await store.getLaunchCredentials(), { apiKey: 'sk-plain' });
+
+    await store.setOAuthCredentials(oauth);
+    assert.deepStrictEqual(await store.getLaunchCredentials(), { apiKey: 'sk-oauth' });
+
+    assert.deepStrictEqual(
+      await store.getLaunchCredentials({ id: 'work', baseUrl: 'https://llm.example.com/v1', apiKey: 'sk-work' }),
+      { selectedAuthType: 'openai-compatible', baseUrl: 'https://llm.example.com/v1', apiKey: 'sk-work' }
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { computeHunks, isFileEditTool, reconstructOriginal, revertHunk } from '../diffReview';
+
+suite('diffReview', () => {
+  suite('isFileEditTool', () => {
+    test('matches write and edit tools', () => {
+      assert.strictEqual(isFileEditTool('write_file'), true);
+      assert.strictEqual(isFileEditTool('replace'), true);
+      assert.strictEqual(isFileEditTool('Edit'), true);
+    });
+
+    test('ignores read and search tools', () => {
+      assert.strictEqual(isFileEditTool('read_file'), false);
+      assert.strictEqual(isFileEditTool('search_file_content'), false);
+      assert.strictEqual(isFileEditTool('run_shell_command'), false);
+    });
+  });
+
+  suite('computeHunks', () => {
+    test('returns no hunks for identical content', () => {
+      assert.deepStrictEqual(computeHunks('a\nb\n', 'a\nb\n'), []);
+    });
+
+    test('splits separate changes into separate hunks', () => {
+      const before = 'one\ntwo\nthree\nfour\nfive';
+      const after = 'one\nTWO\nthree\nfour\nfive\nsix';
+      const hunks = computeHunks(before, after);
+
+      assert.strictEqual(hunks.length, 2);
+      assert.deepStrictEqual(hunks[0].oldLines, ['two']);
+      assert.deepStrictEqual(hunks[0].newLines, ['TWO']);
+      assert.strictEqual(hunks[0].oldStart, 2);
+      assert.deepStrictEqual(hunks[1].oldLines, []);
+      assert.deepStrictEqual(hunks[1].newLines, ['six']);
+      assert.strictEqual(hunks[1].newStart, 6);
+      assert.ok(hunks.every(h => h.decision === 'pending'));
+    });
+
+    test('handles creating a new file', () => {
+      const hunks = computeHunks('', 'a\nb');
+      assert.strictEqual(hunks.length, 1);
+      assert.deepStrictEqual(hunks[0].newLines, ['a', 'b']);
+    });
+  });
+
+  suite('revertHunk', () => {
+    const before = 'alpha\nbeta\ngamma\ndelta\nepsilon';
+    const after = 'alpha\nBETA\nextra\ngamma\ndelta\nEPSILON';
+
+    test('reverts a single hunk and leaves the rest', () => {
+      const hunks = computeHunks(before, after);
+      const result = revertHunk(after, hunks, 1);
+      assert.strictEqual(result, 'alpha\nBETA\nextra\ngamma\ndelta\nepsilon');
+    });
+
+    test('accounts for line shifts from earlier reverted hunks', () => {
+      const hunks = computeHunks(before, after);
+      let content = revertHunk(after, hunks, 0);
+      hunks[0].decision = 'reverted';
+      content = revertHunk(content, hunks, 1);
+      assert.strictEqual(content, before);
+    });
+
+    test('finds a hunk that drifted after the edit', () => {
+      const hunks = computeHunks(before, after);
+      const drifted = 'header\n' + after;
+      assert.strictEqual(revertHunk(drifted, hunks, 1), 'header\nalpha\nBETA\nextra\ngamma\ndelta\nepsilon');
+    });
+
+    test('throws when the edited lines are gone', () => {
+      const hunks = computeHunks(before, after);
+      assert.throws(() => revertHunk('something else entirely', hunks, 0), /no longer match/);
+    });
+  });
+
+  suite('reconstructOriginal', () => {
+    test('rebuilds the pre-edit content from applied hunks', () => {
+      const before = 'a\nb\nc\nd\ne\nf';
+      const after = 'a\nB\nc\nd\nE\nf\ng';
+      const hunks = computeHunks(before, after);
+      assert.strictEqual(reconstructOriginal(after, hunks), before);
+    });
+
+    test('skips hunks that were already reverted', () => {
+      const before = 'a\nb\nc';
+      const after = 'a\nB\nc';
+      const hunks = computeHunks(before, after);
+      const reverted = revertHunk(after, hunks, 0);
+      hunks[0].decision = 'reverted';
+      assert.strictEqual(reconstructOriginal(reverted, hunks), before);
+    });
+  });
+});
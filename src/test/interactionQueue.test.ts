@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { InteractionQueue } from '../interactionQueue';
+
+const confirmation = (requestId: number, toolName: string, confirmationType = 'exec') => ({
+  chunkType: 'tool_confirmation' as const, requestId, toolName, description: toolName, confirmationType, input: {}, canAlwaysAllow: true,
+});
+
+suite('InteractionQueue', () => {
+  test('keeps requests per conversation in arrival order without duplicates', () => {
+    const queue = new InteractionQueue();
+    queue.add('a', confirmation(1, 'Shell'));
+    queue.add('b', confirmation(2, 'Shell'));
+    queue.add('a', { chunkType: 'user_question', requestId: 3, questions: [] });
+    queue.add('a', confirmation(1, 'Shell'));
+
+    assert.deepStrictEqual(queue.list('a').map(c => c.requestId), [1, 3]);
+    queue.remove('a', 1);
+    assert.deepStrictEqual(queue.entries().map(e => [e.conversationId, e.chunk.requestId]), [['a', 3], ['b', 2]]);
+    queue.clear('a');
+    assert.deepStrictEqual(queue.list('a'), []);
+  });
+
+  test('finds queued confirmations of the same tool and kind', () => {
+    const queue = new InteractionQueue();
+    queue.add('a', confirmation(1, 'Shell'));
+    queue.add('a', confirmation(2, 'Edit', 'edit'));
+    queue.add('a', confirmation(3, 'Shell'));
+    queue.add('a', confirmation(4, 'Shell', 'mcp'));
+
+    assert.deepStrictEqual(queue.sameKind('a', 3).map(c => c.requestId), [1, 3]);
+    assert.deepStrictEqual(queue.sameKind('a', 9), []);
+  });
+});
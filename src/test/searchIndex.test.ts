@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { ConversationSearchIndex } from '../searchIndex';
+import { Conversation, Message } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+function conversation(id: string, title: string, messages: Message[], updatedAt = 1): Conversation {
+  return { id, title, messages, mode: 'default', think: false, model: BUILTIN_MODELS[0].id, createdAt: 0, updatedAt };
+}
+
+function userMessage(id: string, content: string, timestamp: number): Message {
+  return { id, role: 'user', content, blocks: [{ type: 'text', content }], attachedFiles: [], timestamp };
+}
+
+suite('ConversationSearchIndex', () => {
+  test('finds message text, tool calls and file paths with highlighted snippets', () => {
+    const index = new ConversationSearchIndex();
+    index.sync([
+      conversation('c1', 'Parser work', [
+        userMessage('u1', 'Why does the Tokenizer crash?', 1),
+        {
+          id: 'a1',
+          role: 'assistant',
+          content: '',
+          blocks: [
+            { type: 'tool', name: 'run_shell_command', input: { command: 'npm test -- tokenizer' }, output: 'FAIL tokenizer.test.ts', status: 'completed' },
+            { type: 'file_ref', path: '/repo/src/lexer.ts' },
+          ],
+          attachedFiles: [],
+          timestamp: 2,
+        },
+      ]),
+    ]);
+
+    const results = index.search('tokenizer');
+    assert.deepStrictEqual(results.map(r => [r.messageId, r.source]), [['a1', 'tool'], ['u1', 'message']]);
+    const user = results[1];
+    assert.strictEqual(user.snippet.slice(user.matches[0][0], user.matches[0][0] + user.matches[0][1]), 'Tokenizer');
+
+    assert.deepStrictEqual(index.search('lexer.ts').map(r => r.source), ['file']);
+    assert.deepStrictEqual(index.search('tokenizer crash').map(r => r.messageId), ['u1']);
+  });
+
+  test('re-indexes changed conversations and drops deleted ones', () => {
+    const index = new ConversationSearchIndex();
+    const c1 = conversation('c1', 'First', [userMessage('u1', 'alpha', 1)]);
+    index.sync([c1, conversation('c2', 'Second', [userMessage('u2', 'alpha too', 2)])]);
+    assert.strictEqual(index.search('alpha').length, 2);
+
+    c1.messages.push(userMessage('u3', 'beta', 3));
+    c1.updatedAt = 5;
+    index.sync([c1]);
+
+    assert.deepStrictEqual(index.search('alpha').map(r => r.conversationId), ['c1']);
+    assert.deepStrictEqual(index.search('beta').map(r => r.messageId), ['u3']);
+  });
+});
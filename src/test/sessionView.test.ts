@@ -0,0 +1,13 @@
+import * as assert from 'assert';
+import { SessionView, findHtmlRenderer } from '../sessionView';
+
+suite('sessionView', () => {
+  test('the HTML export skips views that are not webviews', () => {
+    const usageTree: SessionView = { postMessage: () => {} };
+    const unboundWebview: SessionView = { postMessage: () => {}, canRenderHtml: false };
+    const chat: SessionView = { postMessage: () => {}, canRenderHtml: true };
+
+    assert.strictEqual(findHtmlRenderer(new Set([usageTree, unboundWebview, chat])), chat);
+    assert.strictEqual(findHtmlRenderer([usageTree]), undefined);
+  });
+});
@@ -157,13 +157,13 @@ suite('IFlowClient Settings Management', () => {
     assert.strictEqual(saved.modelName, 'NewModel', 'Should update modelName');
   });
 
-  test('updateIFlowCliApiConfig saves baseUrl and apiKey', () => {
+  test('updateIFlowCliApiConfig saves baseUrl but never the apiKey', () => {
     (client as any).updateIFlowCliApiConfig();
     
     assert.ok(fs.existsSync(settingsPath), 'Settings file should be created');
     const saved = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
     assert.strictEqual(saved.baseUrl, 'https://api.test.com/v1', 'Should save baseUrl from config');
-    assert.strictEqual(saved.apiKey, 'test-api-key-12345', 'Should save apiKey from config');
+    assert.strictEqual(saved.apiKey, undefined, 'API keys are only passed to the CLI at launch');
   });
 
   test('updateIFlowCliApiConfig does not overwrite unchanged values', () => {
@@ -1,6 +1,8 @@
 import * as assert from 'assert';
 import { ConversationStore } from '../store';
-import { ModelType, MODELS } from '../protocol';
+import { MementoConversationStorage } from '../conversationStorage';
+import { ModelType } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
 
 class FakeMemento {
   private value: unknown;
@@ -42,7 +44,7 @@ suite('ConversationStore', () => {
       ]
     });
 
-    const store = new ConversationStore(memento as unknown as import('vscode').Memento, () => {});
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
     const conversation = store.getCurrentConversation();
 
     assert.ok(conversation);
@@ -55,10 +57,10 @@ suite('ConversationStore', () => {
       currentId: null,
       conversations: []
     });
-    const store = new ConversationStore(memento as unknown as import('vscode').Memento, () => {});
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
     const conversation = store.newConversation();
 
-    assert.strictEqual(conversation.model, MODELS[0]);
+    assert.strictEqual(conversation.model, BUILTIN_MODELS[0].id);
     assert.strictEqual(conversation.mode, 'default');
     assert.strictEqual(conversation.think, false);
   });
@@ -68,7 +70,7 @@ suite('ConversationStore', () => {
       currentId: null,
       conversations: []
     });
-    const store = new ConversationStore(memento as unknown as import('vscode').Memento, () => {});
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
     store.newConversation();
 
     const newModel: ModelType = 'DeepSeek-V3.2';
@@ -78,4 +80,250 @@ suite('ConversationStore', () => {
     assert.ok(current);
     assert.strictEqual(current?.model, 'DeepSeek-V3.2');
   });
+
+  test('rewinding to an assistant message keeps it and collects later checkpoints', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+
+    const conversationId = store.newConversation().id;
+    store.addUserMessage('first', []);
+    const firstReply = store.startAssistantMessage(conversationId);
+    store.appendToAssistantMessage(conversationId, { chunkType: 'text', content: 'done' });
+    store.endAssistantMessage(conversationId);
+
+    store.addUserMessage('second', []);
+    store.startAssistantMessage(conversationId);
+    store.addCheckpointFile(conversationId, { path: '/tmp/a.ts', blob: 'hash-a' });
+    store.endAssistantMessage(conversationId);
+    store.setSessionId(conversationId, 'session-1');
+
+    const checkpoints = store.getRewindCheckpoints(firstReply.id);
+    assert.deepStrictEqual(checkpoints, [{ files: [{ path: '/tmp/a.ts', blob: 'hash-a' }] }]);
+
+    assert.strictEqual(store.rewindToMessage(firstReply.id), true);
+    const current = store.getCurrentConversation();
+    assert.strictEqual(current?.messages.length, 2);
+    assert.strictEqual(current?.sessionId, undefined);
+    assert.strictEqual(current?.seedContext, 'User: first\n\nAssistant: done');
+  });
+
+  test('checkpoints keep store hashes, and inline content of earlier versions moves to the store', () => {
+    const legacy = { path: '/ws/old.ts', content: 'original' };
+    const memento = new FakeMemento({
+      currentId: 'c1',
+      conversations: [{
+        id: 'c1', title: 'old', mode: 'default', think: false, model: BUILTIN_MODELS[0].id, createdAt: 0, updatedAt: 0,
+        messages: [{ id: 'a1', role: 'assistant', content: '', blocks: [], attachedFiles: [], timestamp: 0, checkpoint: { files: [legacy] } }],
+      }],
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+
+    store.migrateInlineCheckpoints((content) => `hash-of-${content}`);
+    store.addUserMessage('edit', []);
+    store.startAssistantMessage('c1');
+    store.addCheckpointFile('c1', { path: '/ws/a.ts', blob: 'hash-a' });
+    store.addCheckpointFile('c1', { path: '/ws/b.ts', skipped: true });
+
+    const messages = store.getConversation('c1')?.messages;
+    assert.deepStrictEqual(messages?.[0].checkpoint, { files: [{ path: '/ws/old.ts', blob: 'hash-of-original' }] });
+    assert.deepStrictEqual(messages?.[2].checkpoint, { files: [{ path: '/ws/a.ts', blob: 'hash-a' }], skipped: ['/ws/b.ts'] });
+    assert.deepStrictEqual([...store.getCheckpointBlobs()].sort(), ['hash-a', 'hash-of-original']);
+  });
+
+  test('rewinding to a user message removes it and resets the title', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+
+    const conversationId = store.newConversation().id;
+    const question = store.addUserMessage('only question', []);
+    store.startAssistantMessage(conversationId);
+    store.endAssistantMessage(conversationId);
+
+    assert.strictEqual(store.rewindToMessage(question.id), true);
+    const current = store.getCurrentConversation();
+    assert.strictEqual(current?.messages.length, 0);
+    assert.strictEqual(current?.title, 'New Conversation');
+    assert.strictEqual(current?.seedContext, undefined);
+    assert.strictEqual(store.rewindToMessage('missing'), false);
+  });
+
+  test('streaming state is tracked per conversation', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+
+    const first = store.newConversation();
+    store.addUserMessage('task one', []);
+    store.startAssistantMessage(first.id);
+    store.setStreaming(first.id, true);
+
+    const second = store.newConversation();
+    assert.strictEqual(store.getState().isStreaming, false);
+    assert.deepStrictEqual(store.getState().streamingConversationIds, [first.id]);
+
+    // Chunks for the background conversation don't touch the current one
+    store.appendToAssistantMessage(first.id, { chunkType: 'text', content: 'working' });
+    assert.strictEqual(store.getConversation(first.id)?.messages[1].content, 'working');
+    assert.strictEqual(store.getConversation(second.id)?.messages.length, 0);
+
+    store.switchConversation(first.id);
+    assert.strictEqual(store.getState().isStreaming, true);
+    store.setStreaming(first.id, false);
+    assert.deepStrictEqual(store.getState().streamingConversationIds, []);
+  });
+
+  test('parallel calls of the same tool keep separate blocks by tool call id', () => {
+    const memento = new FakeMemento({ currentId: null, conversations: [] });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const conversationId = store.newConversation().id;
+    store.addUserMessage('edit both', []);
+    store.startAssistantMessage(conversationId);
+
+    store.appendToAssistantMessage(conversationId, { chunkType: 'tool_start', name: 'edit_file', input: { file_path: 'a.ts' }, toolCallId: 't1' });
+    store.appendToAssistantMessage(conversationId, { chunkType: 'tool_start', name: 'edit_file', input: { file_path: 'b.ts' }, toolCallId: 't2' });
+    store.appendToAssistantMessage(conversationId, { chunkType: 'tool_start', name: 'edit_file', input: { old_string: 'x' }, toolCallId: 't1' });
+    store.appendToAssistantMessage(conversationId, { chunkType: 'tool_end', status: 'completed', toolCallId: 't1' });
+
+    const blocks = store.getConversation(conversationId)?.messages[1].blocks ?? [];
+    assert.deepStrictEqual(blocks.map(b => b.type === 'tool' ? [b.toolCallId, b.status, b.input.file_path] : null), [
+      ['t1', 'completed', 'a.ts'],
+      ['t2', 'running', 'b.ts'],
+    ]);
+    assert.strictEqual(store.getLastToolBlockRef(conversationId, 't1')?.blockIndex, 0);
+    assert.strictEqual(store.getLastToolBlockRef(conversationId)?.blockIndex, 1);
+  });
+
+  test('imported conversation gets a new id and a transcript fallback', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const original = store.newConversation();
+    store.addUserMessage('shared question', []);
+
+    const imported = store.importConversation({ ...original, sessionId: 'remote-session' });
+
+    assert.notStrictEqual(imported.id, original.id);
+    assert.strictEqual(store.getState().currentConversationId, imported.id);
+    assert.strictEqual(imported.sessionId, 'remote-session');
+    assert.strictEqual(imported.seedContext, 'User: shared question');
+  });
+
+  test('editing a user message branches the conversation and siblings can be switched', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const conversationId = store.newConversation().id;
+    store.addUserMessage('first question', []);
+    store.startAssistantMessage(conversationId);
+    store.appendToAssistantMessage(conversationId, { chunkType: 'text', content: 'first answer' });
+    store.endAssistantMessage(conversationId);
+    const question = store.addUserMessage('second question', []);
+    store.startAssistantMessage(conversationId);
+    store.endAssistantMessage(conversationId);
+    store.setSessionId(conversationId, 'original-session');
+
+    const edited = store.editUserMessage(question.id, 'second question, rephrased');
+    const conversation = store.getCurrentConversation();
+    assert.ok(edited);
+    assert.deepStrictEqual(conversation?.messages.map(m => m.content), ['first question', 'first answer', 'second question, rephrased']);
+    assert.strictEqual(edited.branchSet?.active, 1);
+    assert.strictEqual(edited.branchSet?.branches.length, 2);
+    assert.strictEqual(conversation?.sessionId, undefined);
+    assert.strictEqual(conversation?.seedContext, 'User: first question\n\nAssistant: first answer');
+
+    store.setSessionId(conversationId, 'branch-session');
+    assert.strictEqual(store.switchBranch(edited.id, 0), true);
+    const switched = store.getCurrentConversation();
+    assert.deepStrictEqual(switched?.messages.map(m => m.content), ['first question', 'first answer', 'second question', '']);
+    assert.strictEqual(switched?.sessionId, 'original-session');
+    assert.strictEqual(switched?.messages[2].branchSet?.active, 0);
+
+    assert.strictEqual(store.switchBranch(question.id, 1), true);
+    assert.strictEqual(store.getCurrentConversation()?.sessionId, 'branch-session');
+    assert.strictEqual(store.getCurrentConversation()?.messages.length, 3);
+  });
+
+  test('regenerating keeps the previous answer as a sibling branch', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const conversationId = store.newConversation().id;
+    store.addUserMessage('explain the bug', []);
+    const answer = store.startAssistantMessage(conversationId);
+    store.endAssistantMessage(conversationId);
+
+    assert.strictEqual(store.branchForRegenerate('not-the-last'), null);
+    const prompt = store.branchForRegenerate(answer.id);
+    assert.strictEqual(prompt?.content, 'explain the bug');
+    assert.strictEqual(prompt?.branchSet?.branches.length, 2);
+
+    const regenerated = store.startAssistantMessage(conversationId, BUILTIN_MODELS[1].id);
+    assert.strictEqual(regenerated.model, BUILTIN_MODELS[1].id);
+    assert.strictEqual(answer.model, BUILTIN_MODELS[0].id);
+    assert.deepStrictEqual(store.getCurrentConversation()?.messages.map(m => m.id), [prompt?.id, regenerated.id]);
+  });
+
+  test('compaction replaces earlier turns with the summary in a fresh session', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const conversationId = store.newConversation().id;
+    store.addUserMessage('a'.repeat(4000), []);
+    store.startAssistantMessage(conversationId);
+    store.appendToAssistantMessage(conversationId, { chunkType: 'text', content: 'long answer' });
+    store.endAssistantMessage(conversationId);
+    store.setSessionId(conversationId, 'session-1');
+    const before = store.getContextUsage(conversationId).usedTokens;
+
+    const boundary = store.beginCompaction(conversationId);
+    store.appendToAssistantMessage(conversationId, { chunkType: 'text', content: 'We fixed the parser.' });
+    store.completeCompaction(conversationId);
+
+    const conversation = store.getConversation(conversationId);
+    assert.strictEqual(boundary.compaction?.usedTokens, before);
+    assert.strictEqual(conversation?.sessionId, undefined);
+    assert.strictEqual(conversation?.seedContext, 'Summary of the earlier conversation:\nWe fixed the parser.');
+    assert.ok(store.getContextUsage(conversationId).usedTokens < before);
+
+    const failed = store.beginCompaction(conversationId);
+    store.abortCompaction(conversationId, failed.id);
+    assert.strictEqual(conversation?.messages.length, 3);
+  });
+
+  test('choosing a provider switches to a model it offers', () => {
+    const memento = new FakeMemento({
+      currentId: null,
+      conversations: []
+    });
+    const store = new ConversationStore(new MementoConversationStorage(memento as unknown as import('vscode').Memento), () => {});
+    const model = { id: 'gpt-oss-120b', displayName: 'gpt-oss-120b', contextSize: 131072, supportsThinking: false };
+    store.setProviders([{ id: 'work', baseUrl: 'https://llm.example.com/v1', models: [model], hasApiKey: true }]);
+    const conversation = store.newConversation();
+
+    store.setProvider('work');
+    assert.strictEqual(conversation.providerId, 'work');
+    assert.strictEqual(conversation.model, 'gpt-oss-120b');
+    assert.strictEqual(store.getContextUsage(conversation).totalTokens, 131072);
+    assert.strictEqual(store.getModel(BUILTIN_MODELS[0].id), undefined);
+
+    store.setProvider(null);
+    assert.strictEqual(conversation.providerId, undefined);
+    assert.strictEqual(conversation.model, BUILTIN_MODELS[0].id);
+  });
 });
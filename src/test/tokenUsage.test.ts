@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { parseUsage, findUsageInFrame, UsageTracker, estimateContextTokens, heuristicTokenizer } from '../tokenUsage';
+import { Message } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+function message(role: Message['role'], content: string, usage?: Message['usage']): Message {
+  return {
+    id: `${role}-${content}`,
+    role,
+    content,
+    blocks: [{ type: 'text', content }],
+    attachedFiles: [],
+    timestamp: 0,
+    usage,
+  };
+}
+
+suite('tokenUsage', () => {
+  test('parses usage in camelCase and OpenAI snake_case shapes', () => {
+    assert.deepStrictEqual(parseUsage({ inputTokens: 10, outputTokens: 5 }), {
+      inputTokens: 10, outputTokens: 5, cachedInputTokens: undefined, source: 'cli',
+    });
+    assert.deepStrictEqual(parseUsage({ prompt_tokens: 7, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 2 } }), {
+      inputTokens: 7, outputTokens: 3, cachedInputTokens: 2, source: 'cli',
+    });
+    assert.strictEqual(parseUsage({ stopReason: 'end_turn' }), null);
+  });
+
+  test('finds usage in raw ACP frames', () => {
+    const frame = JSON.stringify({ jsonrpc: '2.0', id: 3, result: { stopReason: 'end_turn', usage: { input_tokens: 120, output_tokens: 30 } } });
+    assert.strictEqual(findUsageInFrame(frame)?.inputTokens, 120);
+    assert.strictEqual(findUsageInFrame('{"method":"session/update","params":{}}'), null);
+    assert.strictEqual(findUsageInFrame('not json with tokens'), null);
+  });
+
+  test('tracker prefers CLI usage and estimates otherwise', () => {
+    const tracker = new UsageTracker();
+    tracker.begin(BUILTIN_MODELS[0].id, 'abcdefgh');
+    tracker.observe({ chunkType: 'text', content: 'abcd' });
+    assert.deepStrictEqual(tracker.finish(), { inputTokens: 2, outputTokens: 1, source: 'estimate' });
+
+    tracker.report({ inputTokens: 900, outputTokens: 40, source: 'cli' });
+    assert.strictEqual(tracker.finish().inputTokens, 900);
+
+    tracker.begin(BUILTIN_MODELS[0].id, '');
+    assert.strictEqual(tracker.finish().source, 'estimate');
+  });
+
+  test('context size starts from the latest CLI-reported turn', () => {
+    const messages = [
+      message('user', 'first question'),
+      message('assistant', 'first answer', { inputTokens: 1000, outputTokens: 200, source: 'cli' }),
+      message('user', 'abcdefgh'),
+    ];
+    assert.deepStrictEqual(estimateContextTokens(messages, BUILTIN_MODELS[0].id), {
+      usedTokens: 1200 + heuristicTokenizer.count('abcdefgh'),
+      source: 'cli',
+    });
+    assert.strictEqual(estimateContextTokens(messages.slice(0, 1), BUILTIN_MODELS[0].id).source, 'estimate');
+  });
+});
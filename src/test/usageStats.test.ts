@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { buildUsageReport, summarizeTotals } from '../usageStats';
+import { Conversation, Message } from '../protocol';
+import { BUILTIN_MODELS } from '../modelCatalog';
+
+const DAY1 = new Date(2026, 9, 17, 10).getTime();
+const DAY2 = new Date(2026, 9, 18, 10).getTime();
+
+function run(id: string, timestamp: number, overrides: Partial<Message> = {}): Message {
+  return {
+    id,
+    role: 'assistant',
+    content: '',
+    blocks: [],
+    attachedFiles: [],
+    timestamp,
+    durationMs: 4000,
+    usage: { inputTokens: 1000, outputTokens: 500, source: 'cli' },
+    ...overrides,
+  };
+}
+
+function conversation(id: string, messages: Message[], workspaceFolderUri?: string): Conversation {
+  return { id, title: id, messages, mode: 'default', think: false, model: BUILTIN_MODELS[0].id, createdAt: 0, updatedAt: 0, workspaceFolderUri };
+}
+
+suite('usageStats', () => {
+  test('groups runs by day, model and workspace folder', () => {
+    const report = buildUsageReport([
+      conversation('a', [
+        run('a1', DAY1, {
+          blocks: [
+            { type: 'tool', name: 'run_shell_command', input: {}, output: '', status: 'completed' },
+            { type: 'tool', name: 'edit_file', input: {}, output: '', status: 'error' },
+          ],
+        }),
+        run('a2', DAY2, { model: BUILTIN_MODELS[1].id, durationMs: undefined }),
+      ], '/work/api'),
+      conversation('b', [
+        run('b1', DAY2, { blocks: [{ type: 'error', message: 'boom' }] }),
+        run('b2', DAY2, { streaming: true }),
+      ]),
+    ]);
+
+    assert.strictEqual(report.totals.runs, 3);
+    assert.strictEqual(report.totals.inputTokens, 3000);
+    assert.strictEqual(report.totals.toolCalls, 2);
+    assert.strictEqual(report.totals.errors, 2);
+    assert.strictEqual(report.totals.timedRuns, 2);
+
+    assert.deepStrictEqual(report.byDay.map(g => [g.key, g.totals.runs]), [['2026-10-18', 2], ['2026-10-17', 1]]);
+    assert.deepStrictEqual(report.byModel.map(g => [g.key, g.totals.runs]), [[BUILTIN_MODELS[0].id, 2], [BUILTIN_MODELS[1].id, 1]]);
+    assert.deepStrictEqual(report.byWorkspace.map(g => g.label).sort(), ['No folder', 'api']);
+  });
+
+  test('counts inactive branches and prices configured models', () => {
+    const edited = run('a2', DAY2);
+    edited.branchSet = { branches: [{ messages: [run('old', DAY1)] }, null], active: 1 };
+    const report = buildUsageReport([conversation('a', [run('a1', DAY1), edited])], {
+      [BUILTIN_MODELS[0].id]: { input: 2, output: 10 },
+    });
+
+    assert.strictEqual(report.totals.runs, 3);
+    assert.strictEqual(report.totals.cost?.toFixed(3), '0.021');
+    assert.strictEqual(summarizeTotals(report.totals), '3 runs · 4.5k tokens · avg 4s · $0.02');
+  });
+});
@@ -0,0 +1,201 @@
+// Token accounting: usage reported by the iFlow CLI when available, and
+// pluggable per-model tokenizers for estimates when it is not.
+
+import { Message, ModelType, StreamChunk, TokenUsage } from './protocol';
+import { findLastCompaction } from './transcript';
+
+export interface Tokenizer {
+  count(text: string): number;
+}
+
+/**
+ * Character-class heuristic: roughly 4 Latin characters or 2 CJK characters
+ * per token. Used for every model without a registered tokenizer.
+ */
+export const heuristicTokenizer: Tokenizer = {
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    let tokens = 0;
+    for (const ch of text) {
+      tokens += ch.charCodeAt(0) > 0x2E80 ? 0.5 : 0.25;
+    }
+    return Math.ceil(tokens);
+  },
+};
+
+const tokenizers = new Map<ModelType, Tokenizer>();
+
+/** Use a model-specific tokenizer for estimates (e.g. one shipped with the model's vocabulary). */
+export function registerTokenizer(model: ModelType, tokenizer: Tokenizer): void {
+  tokenizers.set(model, tokenizer);
+}
+
+export function getTokenizer(model: ModelType): Tokenizer {
+  return tokenizers.get(model) ?? heuristicTokenizer;
+}
+
+// ── CLI-reported usage ──────────────────────────────────────────────
+
+const INPUT_KEYS = ['inputTokens', 'input_tokens', 'promptTokens', 'prompt_tokens'];
+const OUTPUT_KEYS = ['outputTokens', 'output_tokens', 'completionTokens', 'completion_tokens'];
+const CACHED_KEYS = ['cachedInputTokens', 'cacheReadInputTokens', 'cache_read_input_tokens', 'cachedTokens', 'cached_tokens'];
+
+function pickNumber(obj: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a usage object in any of the shapes the CLI and OpenAI-compatible
+ * backends use (camelCase, snake_case, prompt/completion naming).
+ */
+export function parseUsage(value: unknown): TokenUsage | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const obj = value as Record<string, unknown>;
+  const inputTokens = pickNumber(obj, INPUT_KEYS);
+  const outputTokens = pickNumber(obj, OUTPUT_KEYS);
+  if (inputTokens === undefined && outputTokens === undefined) {
+    return null;
+  }
+  const details = obj.prompt_tokens_details;
+  const cachedInputTokens = pickNumber(obj, CACHED_KEYS)
+    ?? (typeof details === 'object' && details !== null ? pickNumber(details as Record<string, unknown>, CACHED_KEYS) : undefined);
+  return {
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    cachedInputTokens,
+    source: 'cli',
+  };
+}
+
+/**
+ * Find usage in a raw ACP JSON-RPC frame: the session/prompt result or a
+ * session/update notification carrying a usage object.
+ */
+export function findUsageInFrame(raw: string): TokenUsage | null {
+  if (!raw.includes('oken')) {
+    return null; // cheap pre-check: no *Tokens / *_tokens field in the frame
+  }
+  try {
+    const frame = JSON.parse(raw);
+    return parseUsage(frame?.result?.usage)
+      ?? parseUsage(frame?.params?.update?.usage)
+      ?? parseUsage(frame?.params?.usage);
+  } catch {
+    return null;
+  }
+}
+
+// ── Per-run tracking ────────────────────────────────────────────────
+
+/**
+ * Collects the usage of one run. CLI-reported figures win; otherwise the
+ * prompt and everything streamed back (text, thinking, code, tool inputs
+ * and outputs) are counted with the model's tokenizer.
+ */
+export class UsageTracker {
+  private tokenizer: Tokenizer = heuristicTokenizer;
+  private estimatedInput = 0;
+  private estimatedOutput = 0;
+  private reported: TokenUsage | null = null;
+
+  begin(model: ModelType, prompt: string): void {
+    this.tokenizer = getTokenizer(model);
+    this.estimatedInput = this.tokenizer.count(prompt);
+    this.estimatedOutput = 0;
+    this.reported = null;
+  }
+
+  observe(chunk: StreamChunk): void {
+    switch (chunk.chunkType) {
+      case 'text':
+      case 'code_content':
+      case 'thinking_content':
+      case 'tool_output':
+        this.estimatedOutput += this.tokenizer.count(chunk.content);
+        break;
+      case 'tool_start':
+        this.estimatedOutput += this.tokenizer.count(JSON.stringify(chunk.input));
+        break;
+    }
+  }
+
+  /** Record usage reported by the CLI; the latest report of a run is kept. */
+  report(usage: TokenUsage | null): void {
+    if (usage) {
+      this.reported = usage;
+    }
+  }
+
+  finish(): TokenUsage {
+    return this.reported ?? {
+      inputTokens: this.estimatedInput,
+      outputTokens: this.estimatedOutput,
+      source: 'estimate',
+    };
+  }
+}
+
+// ── Context window ──────────────────────────────────────────────────
+
+/**
+ * Tokens the conversation currently occupies in the model's context. The
+ * latest CLI-reported turn covers everything up to it (its input is the whole
+ * context sent); later messages and conversations without CLI figures are
+ * estimated message by message. A compaction boundary's own usage describes
+ * the old session, so its summary text is estimated instead.
+ */
+export function estimateContextTokens(messages: Message[], model: ModelType): { usedTokens: number; source: TokenUsage['source'] } {
+  const tokenizer = getTokenizer(model);
+  // After a compaction only its summary occupies the (fresh) session
+  messages = messages.slice(Math.max(findLastCompaction(messages), 0));
+  let lastReported = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].usage?.source === 'cli' && !messages[i].compaction) {
+      lastReported = i;
+      break;
+    }
+  }
+
+  let usedTokens = 0;
+  if (lastReported !== -1) {
+    const usage = messages[lastReported].usage as TokenUsage;
+    usedTokens = usage.inputTokens + usage.outputTokens;
+  }
+  for (const message of messages.slice(lastReported + 1)) {
+    usedTokens += estimateMessageTokens(message, tokenizer);
+  }
+  return { usedTokens, source: lastReported !== -1 ? 'cli' : 'estimate' };
+}
+
+function estimateMessageTokens(message: Message, tokenizer: Tokenizer): number {
+  let tokens = 0;
+  for (const file of message.attachedFiles) {
+    tokens += tokenizer.count(file.content ?? '');
+  }
+  if (message.role === 'user') {
+    return tokens + tokenizer.count(message.content);
+  }
+  for (const block of message.blocks) {
+    switch (block.type) {
+      case 'text':
+      case 'code':
+      case 'thinking':
+        tokens += tokenizer.count(block.content);
+        break;
+      case 'tool':
+        tokens += tokenizer.count(JSON.stringify(block.input)) + tokenizer.count(block.output);
+        break;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,65 @@
+// Plain-text transcript of conversation messages, used to give a fresh CLI
+// session the context of turns it never saw.
+
+import { Message } from './protocol';
+
+/** Upper bound on transcript length; the oldest turns are dropped first. */
+const MAX_TRANSCRIPT_CHARS = 60_000;
+
+export function formatTranscript(messages: Message[]): string {
+  // A compaction summary stands in for everything before it
+  const boundary = findLastCompaction(messages);
+  const turns = messages.slice(Math.max(boundary, 0)).map(formatMessage).filter(turn => turn.length > 0);
+  if (turns.length === 0) {
+    return '';
+  }
+
+  let start = turns.length;
+  let total = 0;
+  while (start > 0 && total + turns[start - 1].length <= MAX_TRANSCRIPT_CHARS) {
+    total += turns[start - 1].length;
+    start--;
+  }
+
+  if (start === turns.length) {
+    // Even the latest turn is too long on its own — keep its tail
+    return turns[turns.length - 1].slice(-MAX_TRANSCRIPT_CHARS);
+  }
+  const kept = turns.slice(start);
+  if (start > 0) {
+    kept.unshift('[... earlier messages omitted ...]');
+  }
+  return kept.join('\n\n');
+}
+
+/** Index of the latest compaction boundary, or -1. */
+export function findLastCompaction(messages: Message[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].compaction) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function formatMessage(message: Message): string {
+  if (message.compaction) {
+    const summary = message.blocks.map(b => b.type === 'text' ? b.content.trim() : '').filter(Boolean).join('\n');
+    return summary ? `Summary of the earlier conversation:\n${summary}` : '';
+  }
+  if (message.role === 'user') {
+    return message.content.trim() ? `User: ${message.content.trim()}` : '';
+  }
+
+  const parts: string[] = [];
+  for (const block of message.blocks) {
+    if (block.type === 'text' && block.content.trim()) {
+      parts.push(block.content.trim());
+    } else if (block.type === 'tool') {
+      const target = typeof block.input.file_path === 'string' ? ` ${block.input.file_path}`
+        : typeof block.input.command === 'string' ? ` ${block.input.command}` : '';
+      parts.push(`[${block.name}${target}]`);
+    }
+  }
+  return parts.length > 0 ? `Assistant: ${parts.join('\n')}` : '';
+}
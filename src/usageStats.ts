@@ -0,0 +1,190 @@
+// Aggregate token usage, tool activity and run times over the stored
+// conversations, grouped by day, model or workspace folder.
+
+import * as path from 'path';
+import { Conversation, Message } from './protocol';
+
+export type UsageGrouping = 'day' | 'model' | 'workspace';
+
+/** USD per million tokens, keyed by model id (the `iflow.modelPricing` setting). */
+export type ModelPricing = Record<string, { input: number; output: number }>;
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  /** Runs whose usage was estimated rather than reported by the CLI. */
+  estimatedRuns: number;
+  toolCalls: number;
+  errors: number;
+  /** Sum and count of runs with a recorded duration (older messages have none). */
+  totalDurationMs: number;
+  timedRuns: number;
+  /** Cost of the runs whose model has a configured price; undefined when none has. */
+  cost?: number;
+}
+
+export interface UsageGroup {
+  key: string;
+  label: string;
+  totals: UsageTotals;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byDay: UsageGroup[];
+  byModel: UsageGroup[];
+  byWorkspace: UsageGroup[];
+}
+
+const NO_FOLDER_KEY = '';
+
+export function emptyTotals(): UsageTotals {
+  return {
+    runs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    estimatedRuns: 0,
+    toolCalls: 0,
+    errors: 0,
+    totalDurationMs: 0,
+    timedRuns: 0,
+  };
+}
+
+/**
+ * Build the usage report. Every finished assistant message counts as one run,
+ * including answers on inactive branches: their tokens were spent too.
+ */
+export function buildUsageReport(conversations: Conversation[], pricing: ModelPricing = {}): UsageReport {
+  const totals = emptyTotals();
+  const byDay = new Map<string, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  const byWorkspace = new Map<string, UsageTotals>();
+
+  for (const conversation of conversations) {
+    for (const message of collectMessages(conversation.messages)) {
+      if (message.role !== 'assistant' || message.streaming) {
+        continue;
+      }
+      const model = message.model ?? conversation.model;
+      const keys: Array<[Map<string, UsageTotals>, string]> = [
+        [byDay, dayKey(message.timestamp)],
+        [byModel, model],
+        [byWorkspace, conversation.workspaceFolderUri ?? NO_FOLDER_KEY],
+      ];
+      addRun(totals, message, pricing[model]);
+      for (const [groups, key] of keys) {
+        let group = groups.get(key);
+        if (!group) {
+          group = emptyTotals();
+          groups.set(key, group);
+        }
+        addRun(group, message, pricing[model]);
+      }
+    }
+  }
+
+  return {
+    totals,
+    byDay: toGroups(byDay, key => key).sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: toGroups(byModel, key => key).sort((a, b) => b.totals.runs - a.totals.runs),
+    byWorkspace: toGroups(byWorkspace, key => key === NO_FOLDER_KEY ? 'No folder' : path.basename(key))
+      .sort((a, b) => b.totals.runs - a.totals.runs),
+  };
+}
+
+/** Messages of the active branch plus those of every stored inactive branch. */
+function collectMessages(messages: Message[]): Message[] {
+  const all: Message[] = [];
+  for (const message of messages) {
+    all.push(message);
+    for (const branch of message.branchSet?.branches ?? []) {
+      if (branch) {
+        all.push(...collectMessages(branch.messages));
+      }
+    }
+  }
+  return all;
+}
+
+function addRun(totals: UsageTotals, message: Message, price: { input: number; output: number } | undefined): void {
+  totals.runs++;
+  const usage = message.usage;
+  if (usage) {
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.cachedInputTokens += usage.cachedInputTokens ?? 0;
+    if (usage.source === 'estimate') {
+      totals.estimatedRuns++;
+    }
+    if (price) {
+      totals.cost = (totals.cost ?? 0)
+        + (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+    }
+  }
+  for (const block of message.blocks) {
+    if (block.type === 'tool') {
+      totals.toolCalls++;
+      if (block.status === 'error') {
+        totals.errors++;
+      }
+    } else if (block.type === 'error') {
+      totals.errors++;
+    }
+  }
+  if (message.durationMs !== undefined) {
+    totals.totalDurationMs += message.durationMs;
+    totals.timedRuns++;
+  }
+}
+
+function toGroups(groups: Map<string, UsageTotals>, label: (key: string) => string): UsageGroup[] {
+  return [...groups].map(([key, totals]) => ({ key, label: label(key), totals }));
+}
+
+/** Local calendar day as YYYY-MM-DD, so keys sort chronologically. */
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// ── Formatting ──────────────────────────────────────────────────────
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** One-line summary used as the description of a usage row. */
+export function summarizeTotals(totals: UsageTotals): string {
+  const parts = [
+    `${totals.runs} run${totals.runs === 1 ? '' : 's'}`,
+    `${formatTokens(totals.inputTokens + totals.outputTokens)} tokens`,
+  ];
+  if (totals.timedRuns > 0) {
+    parts.push(`avg ${formatDuration(totals.totalDurationMs / totals.timedRuns)}`);
+  }
+  if (totals.cost !== undefined) {
+    parts.push(`$${totals.cost.toFixed(2)}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { IFlowSession } from './session';
+import { SessionView } from './sessionView';
+import { ExtensionMessage } from './protocol';
+import {
+  UsageReport, UsageGroup, UsageTotals, ModelPricing,
+  buildUsageReport, summarizeTotals, formatTokens, formatDuration,
+} from './usageStats';
+
+/** Coalesce the state updates of a streaming run into one refresh. */
+const REFRESH_DELAY_MS = 1000;
+const MAX_DAYS_SHOWN = 30;
+
+type UsageNode =
+  | { kind: 'section'; label: string; icon: string; groups: UsageGroup[] }
+  | { kind: 'group'; group: UsageGroup; icon?: string }
+  | { kind: 'metric'; label: string; value: string };
+
+/**
+ * "Usage" tree in the IFlow view container: totals plus per-day, per-model and
+ * per-workspace-folder breakdowns of every conversation in the store.
+ */
+export class UsageTreeProvider implements vscode.TreeDataProvider<UsageNode>, SessionView, vscode.Disposable {
+  public static readonly viewType = 'iflow-usage';
+
+  private readonly changeEmitter = new vscode.EventEmitter<UsageNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly session: IFlowSession) {}
+
+  /** SessionView: refresh (debounced) whenever conversations change. */
+  postMessage(message: ExtensionMessage): void {
+    if (message.type !== 'stateUpdated' || this.refreshTimer) {
+      return;
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getChildren(node?: UsageNode): UsageNode[] {
+    if (!node) {
+      return this.rootNodes(this.buildReport());
+    }
+    switch (node.kind) {
+      case 'section':
+        return node.groups.map(group => ({ kind: 'group', group }));
+      case 'group':
+        return metricNodes(node.group.totals);
+      case 'metric':
+        return [];
+    }
+  }
+
+  getTreeItem(node: UsageNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'section': {
+        const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = new vscode.ThemeIcon(node.icon);
+        item.description = node.groups.length === 0 ? 'no runs yet' : undefined;
+        return item;
+      }
+      case 'group': {
+        const item = new vscode.TreeItem(node.group.label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = summarizeTotals(node.group.totals);
+        item.tooltip = node.group.key || undefined;
+        if (node.icon) {
+          item.iconPath = new vscode.ThemeIcon(node.icon);
+        }
+        return item;
+      }
+      case 'metric': {
+        const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+        item.description = node.value;
+        return item;
+      }
+    }
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.changeEmitter.dispose();
+  }
+
+  private buildReport(): UsageReport {
+    const pricing = vscode.workspace.getConfiguration('iflow').get<ModelPricing>('modelPricing', {});
+    return buildUsageReport(this.session.getState().conversations, pricing);
+  }
+
+  private rootNodes(report: UsageReport): UsageNode[] {
+    return [
+      { kind: 'group', group: { key: '', label: 'All conversations', totals: report.totals }, icon: 'graph' },
+      { kind: 'section', label: 'By day', icon: 'calendar', groups: report.byDay.slice(0, MAX_DAYS_SHOWN) },
+      { kind: 'section', label: 'By model', icon: 'hubot', groups: report.byModel },
+      { kind: 'section', label: 'By workspace folder', icon: 'root-folder', groups: report.byWorkspace },
+    ];
+  }
+}
+
+function metricNodes(totals: UsageTotals): UsageNode[] {
+  const metric = (label: string, value: string): UsageNode => ({ kind: 'metric', label, value });
+  const nodes = [
+    metric('Runs', totals.estimatedRuns > 0 ? `${totals.runs} (${totals.estimatedRuns} with estimated usage)` : String(totals.runs)),
+    metric('Input tokens', formatTokens(totals.inputTokens)),
+    metric('Output tokens', formatTokens(totals.outputTokens)),
+  ];
+  if (totals.cachedInputTokens > 0) {
+    nodes.push(metric('Cached input tokens', formatTokens(totals.cachedInputTokens)));
+  }
+  nodes.push(
+    metric('Tool calls', String(totals.toolCalls)),
+    metric('Errors', String(totals.errors)),
+  );
+  if (totals.timedRuns > 0) {
+    nodes.push(
+      metric('Average run time', formatDuration(totals.totalDurationMs / totals.timedRuns)),
+      metric('Total run time', formatDuration(totals.totalDurationMs)),
+    );
+  }
+  if (totals.cost !== undefined) {
+    nodes.push(metric('Cost', `$${totals.cost.toFixed(2)}`));
+  }
+  return nodes;
+}